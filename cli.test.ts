@@ -1,8 +1,26 @@
 import { test } from 'node:test'
 import assert from 'node:assert'
-import { spawn, ChildProcess } from 'node:child_process'
+import { spawn, spawnSync, ChildProcess } from 'node:child_process'
 import fs from 'node:fs'
 import path from 'node:path'
+import { categories, resolveOptionsFromAnswers } from './src/prompts/setup'
+import { hookEvents } from './src/prompts/plugin-wizard'
+import { buildProjectFiles, writeProjectFiles } from './src/generator/project-generator'
+import { addToProject } from './src/generator/project-updater'
+import {
+  createMemoryFileSystem,
+  createProject,
+  GenerationInterruptedError,
+  InvalidOptionError,
+  InvalidPluginError,
+  loadPresetsFile,
+  PresetsFileError,
+  ProjectNotFoundError,
+  TargetDirectoryError,
+  TemplateError,
+  WriteError
+} from './src/index'
+import type { ProjectManifest } from './src/types'
 
 const CLI_PATH = path.join(__dirname, 'cli.js')
 
@@ -16,10 +34,10 @@ interface CliResult {
  * Helper to run the CLI and feed it stdin inputs sequentially.
  * Each input is sent only after the CLI has printed its next prompt (a line ending with ': ').
  */
-function runCli(args: string[], inputs: string[] = []): Promise<CliResult> {
+function runCli(args: string[], inputs: string[] = [], cwd: string = __dirname): Promise<CliResult> {
   return new Promise((resolve, reject) => {
     const cp: ChildProcess = spawn(process.execPath, [CLI_PATH, ...args], {
-      cwd: __dirname,
+      cwd,
       env: { ...process.env, NO_COLOR: '1' }
     })
 
@@ -52,15 +70,83 @@ function runCli(args: string[], inputs: string[] = []): Promise<CliResult> {
     cp.on('error', reject)
 
     // Safety timeout to avoid hanging tests
-    setTimeout(() => {
+    const timer = setTimeout(() => {
       cp.kill()
       reject(new Error(`CLI timed out.\nOutput so far:\n${output}\nInputs sent: ${inputIndex}/${inputs.length}`))
     }, 10000)
+    cp.on('close', () => clearTimeout(timer))
   })
 }
 
+/**
+ * Reads every generated file into a map keyed by its path relative to the project root.
+ */
+function readTree(rootDir: string, relativeDir = ''): Map<string, string> {
+  const files = new Map<string, string>()
+  for (const entry of fs.readdirSync(path.join(rootDir, relativeDir), { withFileTypes: true })) {
+    const relativePath = path.posix.join(relativeDir, entry.name)
+    if (entry.isDirectory()) {
+      for (const [nestedPath, content] of readTree(rootDir, relativePath)) {
+        files.set(nestedPath, content)
+      }
+    } else {
+      files.set(relativePath, fs.readFileSync(path.join(rootDir, relativePath), 'utf8'))
+    }
+  }
+  return files
+}
+
+/**
+ * Type-checks a generated project with this repo's TypeScript, resolving its dependencies
+ * from this repo's node_modules, then runs the given generated test files with tsx.
+ */
+function checkGeneratedProject(targetDir: string, testFiles: string[]): void {
+  const typeCheck = spawnSync(process.execPath, [require.resolve('typescript/bin/tsc'), '--noEmit', '-p', targetDir], {
+    encoding: 'utf8',
+    timeout: 60000
+  })
+  assert.strictEqual(typeCheck.status, 0, `Generated project should type-check:\n${typeCheck.stdout}${typeCheck.stderr}`)
+
+  // Run like the project's own `npm test`. Without NODE_TEST_CONTEXT, which this test runner sets,
+  // the child reports its results itself and exits non-zero when a test fails.
+  const { NODE_TEST_CONTEXT, ...env } = process.env
+  const testRun = spawnSync(process.execPath, [require.resolve('tsx/cli'), '--test', ...testFiles], {
+    cwd: targetDir,
+    encoding: 'utf8',
+    timeout: 60000,
+    env
+  })
+  assert.strictEqual(testRun.status, 0, `Generated tests should pass:\n${testRun.stdout}${testRun.stderr}`)
+}
+
+/**
+ * Runs a TypeScript snippet inside a generated project through the tsx CLI
+ * (so @fastify/autoload detects TypeScript support) and parses its JSON output.
+ */
+function runInProject(targetDir: string, code: string, env: Record<string, string> = {}): { status: number | null, stdout: string, stderr: string } {
+  return spawnSync(process.execPath, [require.resolve('tsx/cli'), '-e', code], {
+    cwd: targetDir,
+    encoding: 'utf8',
+    timeout: 30000,
+    env: { ...process.env, ...env }
+  })
+}
+
+/**
+ * Answers "Skip this category" for the given number of guided setup categories.
+ */
+function skipCategories(count: number): string[] {
+  return new Array<string>(count).fill('1')
+}
+
+function removeDir(targetDir: string): void {
+  if (fs.existsSync(targetDir)) {
+    fs.rmSync(targetDir, { recursive: true, force: true })
+  }
+}
+
 test('CLI generates project with default setup and writes files', async () => {
-  const targetDir = path.join(__dirname, '..', '.tmp-test-default')
+  const targetDir = path.join(__dirname, '.tmp-test-default')
 
   if (fs.existsSync(targetDir)) {
     fs.rmSync(targetDir, { recursive: true, force: true })
@@ -69,7 +155,7 @@ test('CLI generates project with default setup and writes files', async () => {
   // Inputs:
   // '1' -> Default setup (quick start)
   // '1' -> Generate
-  const { code, output } = await runCli(['.tmp-test-default'], ['1', '5', '1'])
+  const { code, output } = await runCli(['.tmp-test-default'], ['1', '6', '1'])
 
   assert.strictEqual(code, 0, 'CLI should exit with code 0')
   assert.match(output, /Project created in/, 'Output should confirm project creation')
@@ -84,7 +170,7 @@ test('CLI generates project with default setup and writes files', async () => {
 })
 
 test('CLI prompts for all categories in guided setup', async () => {
-  const targetDir = path.join(__dirname, '..', '.tmp-test-guided')
+  const targetDir = path.join(__dirname, '.tmp-test-guided')
 
   if (fs.existsSync(targetDir)) {
     fs.rmSync(targetDir, { recursive: true, force: true })
@@ -92,10 +178,10 @@ test('CLI prompts for all categories in guided setup', async () => {
 
   // Inputs:
   // '2' -> Guided setup
-  // '1' x6 -> Skip each of the 6 categories
-  // '5' -> Done (plugin scaffold)
+  // '1' x categories -> Skip each category
+  // '6' -> Done (plugin scaffold)
   // '2' -> Cancel
-  const inputs = ['2', '1', '1', '1', '1', '1', '1', '5', '2']
+  const inputs = ['2', ...skipCategories(categories.length), '6', '2']
   const { code, output } = await runCli(['.tmp-test-guided'], inputs)
 
   assert.strictEqual(code, 0, 'CLI should exit with code 0')
@@ -106,13 +192,16 @@ test('CLI prompts for all categories in guided setup', async () => {
   assert.match(output, /Watch Mode: choose how to continue/, 'Should prompt for Watch Mode category')
   assert.match(output, /Safety and Limits: choose how to continue/, 'Should prompt for Safety and Limits category')
   assert.match(output, /Trust Proxy: choose how to continue/, 'Should prompt for Trust Proxy category')
+  for (const category of categories) {
+    assert.ok(output.includes(`${category.name}: choose how to continue`), `Should prompt for ${category.name} category`)
+  }
 
   assert.match(output, /Cancelled\. No files were written\./, 'Output should confirm cancellation')
   assert.strictEqual(fs.existsSync(targetDir), false, 'Target directory should not be created when cancelled')
 })
 
 test('CLI applies custom configurations for Network, Logging, and Debug categories', async () => {
-  const targetDir = path.join(__dirname, '..', '.tmp-test-custom')
+  const targetDir = path.join(__dirname, '.tmp-test-custom')
 
   if (fs.existsSync(targetDir)) {
     fs.rmSync(targetDir, { recursive: true, force: true })
@@ -135,7 +224,8 @@ test('CLI applies custom configurations for Network, Logging, and Debug categori
     '1',         // Skip Watch Mode
     '1',         // Skip Safety and Limits
     '1',         // Skip Trust Proxy
-    '5',         // Done (plugin scaffold)
+    ...skipCategories(categories.length - 6),
+    '6',         // Done (plugin scaffold)
     '1'          // Generate
   ]
 
@@ -162,3 +252,1207 @@ test('CLI applies custom configurations for Network, Logging, and Debug categori
 
   fs.rmSync(targetDir, { recursive: true, force: true })
 })
+
+test('CLI --yes generates the same project as the interactive default setup', async () => {
+  const interactiveDir = path.join(__dirname, '.tmp-test-same-a')
+  const flagsDir = path.join(__dirname, '.tmp-test-same-b')
+  removeDir(interactiveDir)
+  removeDir(flagsDir)
+
+  const interactive = await runCli(['.tmp-test-same-a'], ['1', '6', '1'])
+  const nonInteractive = await runCli(['.tmp-test-same-b', '--yes'])
+
+  assert.strictEqual(interactive.code, 0)
+  assert.strictEqual(nonInteractive.code, 0, nonInteractive.errorOutput)
+  assert.match(nonInteractive.output, /Project created in/)
+
+  const expected = readTree(interactiveDir)
+  const actual = readTree(flagsDir)
+  assert.deepStrictEqual([...actual.keys()].sort(), [...expected.keys()].sort())
+  for (const [relativePath, content] of expected) {
+    assert.strictEqual(actual.get(relativePath), content.replaceAll('.tmp-test-same-a', '.tmp-test-same-b'), relativePath)
+  }
+
+  removeDir(interactiveDir)
+  removeDir(flagsDir)
+})
+
+test('CLI applies option flags and a YAML config file without prompting', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-flags')
+  const configPath = path.join(__dirname, '.tmp-test-flags.yaml')
+  removeDir(targetDir)
+  fs.writeFileSync(configPath, ['# answers', 'port: 8080', 'log-level: info', 'prettyLogs: true', 'prefix: "/api" # routes live here', ''].join('\n'))
+
+  const { code, output, errorOutput } = await runCli([
+    '.tmp-test-flags',
+    '--config', configPath,
+    '--log-level=warn',
+    '--host', '0.0.0.0',
+    '--trust-proxy-ips', '10.0.0.0/8'
+  ])
+  fs.rmSync(configPath)
+
+  assert.strictEqual(code, 0, errorOutput)
+  assert.match(output, /- port: 8080/, 'Config file value should apply')
+  assert.match(output, /- logLevel: warn/, 'Flags should override the config file')
+  assert.match(output, /- prettyLogs: true/)
+  assert.match(output, /- prefix: \/api\n/, 'Quoted values should be unquoted once their comment is stripped')
+  assert.match(output, /- trustProxyEffective: 10\.0\.0\.0\/8/)
+
+  const envContent = fs.readFileSync(path.join(targetDir, '.env'), 'utf8')
+  assert.match(envContent, /PORT=8080/)
+  assert.match(envContent, /HOST=0\.0\.0\.0/)
+  assert.match(envContent, /LOG_LEVEL=warn/)
+
+  removeDir(targetDir)
+})
+
+test('CLI rejects invalid option flag values', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-invalid-flags')
+  removeDir(targetDir)
+
+  const badNumber = await runCli(['.tmp-test-invalid-flags', '--port', 'abc'])
+  assert.strictEqual(badNumber.code, 1)
+  assert.match(badNumber.errorOutput, /Invalid number for Port/)
+
+  const badChoice = await runCli(['.tmp-test-invalid-flags', '--log-level=loud'])
+  assert.strictEqual(badChoice.code, 1)
+  assert.match(badChoice.errorOutput, /Expected one of: fatal, error, warn, info, debug, trace/)
+
+  const unknownFlag = await runCli(['.tmp-test-invalid-flags', '--colour'])
+  assert.strictEqual(unknownFlag.code, 1)
+  assert.match(unknownFlag.errorOutput, /Unknown option: --colour/)
+
+  assert.strictEqual(fs.existsSync(targetDir), false, 'Nothing should be written on invalid input')
+})
+
+test('CLI add scaffolds into an existing project without clobbering user edits', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-add')
+  removeDir(targetDir)
+  assert.strictEqual((await runCli(['.tmp-test-add', '--yes'])).code, 0)
+
+  const addRoute = await runCli(['add', 'route', 'users', 'list'], [], targetDir)
+  assert.strictEqual(addRoute.code, 0, addRoute.errorOutput)
+  assert.match(addRoute.output, /created plugins\/users\/index\.ts/)
+  assert.ok(fs.existsSync(path.join(targetDir, 'plugins', 'users', 'routes', 'list', 'index.ts')))
+
+  const indexPath = path.join(targetDir, 'plugins', 'users', 'index.ts')
+  const routeLine = "    await scoped.register(listRoute, { prefix: '/list' })"
+  const userLine = "    scoped.log.info('users routes loaded')"
+  fs.writeFileSync(indexPath, fs.readFileSync(indexPath, 'utf8').replace(routeLine, `${routeLine}\n${userLine}`))
+
+  const addHook = await runCli(['add', 'hook', 'users', 'audit'], [], targetDir)
+  assert.strictEqual(addHook.code, 0, addHook.errorOutput)
+  assert.match(addHook.output, /created plugins\/users\/hooks\/audit\.ts/)
+  assert.match(addHook.output, /updated plugins\/users\/index\.ts/)
+  assert.match(addHook.output, /updated test\/plugins\/users\.test\.ts/)
+
+  const indexContent = fs.readFileSync(indexPath, 'utf8')
+  assert.ok(indexContent.includes(userLine), 'User edits should be kept')
+  assert.ok(indexContent.includes(routeLine), 'Existing registrations should be kept')
+  assert.match(indexContent, /\.\/hooks\/audit/, 'Hook should be wired into the plugin')
+
+  const duplicate = await runCli(['add', 'route', 'users', 'list'], [], targetDir)
+  assert.strictEqual(duplicate.code, 1)
+  assert.match(duplicate.errorOutput, /Route "list" already exists/)
+
+  fs.writeFileSync(path.join(targetDir, 'plugins', 'users', 'decorator.ts'), '// mine\n')
+  const clobber = await runCli(['add', 'decorator', 'users'], [], targetDir)
+  assert.strictEqual(clobber.code, 1)
+  assert.match(clobber.errorOutput, /Refusing to overwrite existing file: plugins\/users\/decorator\.ts/)
+  assert.strictEqual(fs.readFileSync(path.join(targetDir, 'plugins', 'users', 'decorator.ts'), 'utf8'), '// mine\n')
+  fs.rmSync(path.join(targetDir, 'plugins', 'users', 'decorator.ts'))
+  assert.strictEqual((await runCli(['add', 'decorator', 'users'], [], targetDir)).code, 0)
+  const duplicateDecorator = await runCli(['add', 'decorator', 'users'], [], targetDir)
+  assert.strictEqual(duplicateDecorator.code, 1)
+  assert.match(duplicateDecorator.errorOutput, /Decorator already exists/)
+  assert.throws(() => addToProject(targetDir, { kind: 'decorator', pluginName: 'users', itemName: undefined }), InvalidPluginError)
+  const badRoute = await runCli(['add', 'route', 'users', 'list-'], [], targetDir)
+  assert.strictEqual(badRoute.code, 1)
+  assert.match(badRoute.errorOutput, /Invalid name "list-"/)
+  assert.throws(() => addToProject(path.join(targetDir, 'plugins'), { kind: 'plugin', pluginName: 'orders', itemName: undefined }), ProjectNotFoundError)
+
+  // Projects generated before manifests existed merge against a render of the plugin read off disk
+  fs.rmSync(path.join(targetDir, 'fastify-new.json'))
+  const withoutManifest = await runCli(['add', 'route', 'users', 'export'], [], targetDir)
+  assert.strictEqual(withoutManifest.code, 0, withoutManifest.errorOutput)
+  assert.match(withoutManifest.output, /updated plugins\/users\/index\.ts/)
+  assert.ok(fs.readFileSync(indexPath, 'utf8').includes(userLine), 'User edits should be kept')
+
+  removeDir(targetDir)
+})
+
+test('CLI generates an app exposing build() that type-checks and passes its own tests', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-build')
+  removeDir(targetDir)
+  assert.strictEqual((await runCli(['.tmp-test-build', '--yes'])).code, 0)
+
+  assert.match(fs.readFileSync(path.join(targetDir, 'app.ts'), 'utf8'), /export async function build\(/)
+  assert.match(fs.readFileSync(path.join(targetDir, 'server.ts'), 'utf8'), /closeWithGrace/)
+
+  checkGeneratedProject(targetDir, ['test/plugins/support.test.ts', 'test/routes/root.test.ts'])
+  removeDir(targetDir)
+
+  // routes/ moves under the prefix, and the root route test follows it
+  assert.strictEqual((await runCli(['.tmp-test-build', '--yes', '--prefix', '/api'])).code, 0)
+  checkGeneratedProject(targetDir, ['test/routes/root.test.ts'])
+
+  removeDir(targetDir)
+})
+
+test('CLI generates a validated env config that the app reads at runtime', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-config')
+  removeDir(targetDir)
+  assert.strictEqual((await runCli(['.tmp-test-config', '--port', '8080', '--body-limit', '2048'])).code, 0)
+
+  const example = fs.readFileSync(path.join(targetDir, '.env.example'), 'utf8')
+  const runtimeOptions = categories.flatMap((category) => category.options).filter((option) => option.env)
+  assert.ok(runtimeOptions.length > 0)
+  for (const option of runtimeOptions) {
+    if (option.when === undefined) {
+      assert.match(example, new RegExp(`^(# )?${option.env}=`, 'm'), `.env.example should list ${option.key}`)
+    } else {
+      assert.doesNotMatch(example, new RegExp(`${option.env}=`), `${option.key} should only be listed with its plugin`)
+    }
+  }
+  assert.match(example, /^BODY_LIMIT=2048$/m)
+
+  const readConfig = (env: Record<string, string>) =>
+    runInProject(targetDir, "import('./config').then((m) => console.log(JSON.stringify(m.config)))", env)
+
+  const defaults = readConfig({})
+  assert.strictEqual(defaults.status, 0, defaults.stderr)
+  assert.strictEqual(JSON.parse(defaults.stdout).port, 8080, 'Wizard answers should be the defaults')
+  assert.strictEqual(JSON.parse(defaults.stdout).bodyLimit, 2048)
+
+  const overridden = readConfig({ PORT: '4000' })
+  assert.strictEqual(JSON.parse(overridden.stdout).port, 4000, 'Environment should override .env')
+
+  const invalid = readConfig({ LOG_LEVEL: 'loud' })
+  assert.notStrictEqual(invalid.status, 0, 'Invalid values should be rejected on startup')
+  assert.match(invalid.stderr, /LOG_LEVEL/)
+
+  removeDir(targetDir)
+})
+
+test('CLI configures a socket and rejects combining it with host or port', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-socket')
+  removeDir(targetDir)
+
+  const conflicting = await runCli(['.tmp-test-socket', '--socket', '/tmp/app.sock', '--port', '8080'])
+  assert.strictEqual(conflicting.code, 1)
+  assert.match(conflicting.errorOutput, /Socket cannot be combined with host or port/)
+  // Giving the default port explicitly is a conflict too
+  const defaultPort = await runCli(['.tmp-test-socket', '--socket', '/tmp/app.sock', '--port', '3000'])
+  assert.strictEqual(defaultPort.code, 1)
+  assert.match(defaultPort.errorOutput, /Socket cannot be combined with host or port/)
+
+  const inputs = [
+    '2',             // Guided setup
+    '2',             // Configure Network
+    '',              // Port (default)
+    '0.0.0.0',       // Host
+    '/tmp/app.sock', // Socket
+    '',              // Prefix
+    '',              // Port (default), asked again after the conflict
+    '',              // Host (unset)
+    '/tmp/app.sock', // Socket
+    '',              // Prefix
+    ...skipCategories(categories.length - 1),
+    '6',             // Done (plugin scaffold)
+    '1'              // Generate
+  ]
+  const { code, output } = await runCli(['.tmp-test-socket'], inputs)
+
+  assert.strictEqual(code, 0)
+  assert.match(output, /Socket cannot be combined with host or port/)
+  assert.match(output, /- socket: \/tmp\/app\.sock/)
+  assert.match(output, /- port: \(default\/unset\)/, 'Port should be dropped when a socket is used')
+
+  const envContent = fs.readFileSync(path.join(targetDir, '.env'), 'utf8')
+  assert.match(envContent, /^SOCKET=\/tmp\/app\.sock$/m)
+  assert.match(envContent, /^# PORT=$/m)
+  assert.match(fs.readFileSync(path.join(targetDir, 'server.ts'), 'utf8'), /app\.listen\(\{ path: config\.socket \}\)/)
+
+  removeDir(targetDir)
+})
+
+test('CLI generates an ESM project with .js specifiers and tracing that type-checks and passes its own tests', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-esm')
+  removeDir(targetDir)
+  assert.strictEqual((await runCli(['.tmp-test-esm', '--module-system', 'esm', '--tracing', 'console', '--prefix', '/v1'])).code, 0)
+
+  const addRoute = await runCli(['add', 'route', 'users', 'list'], [], targetDir)
+  assert.strictEqual(addRoute.code, 0, addRoute.errorOutput)
+  assert.strictEqual((await runCli(['add', 'hook', 'users', 'audit'], [], targetDir)).code, 0)
+
+  const packageJson = JSON.parse(fs.readFileSync(path.join(targetDir, 'package.json'), 'utf8'))
+  const tsconfig = JSON.parse(fs.readFileSync(path.join(targetDir, 'tsconfig.json'), 'utf8'))
+  assert.strictEqual(packageJson.type, 'module')
+  assert.strictEqual(tsconfig.compilerOptions.module, 'NodeNext')
+  assert.match(fs.readFileSync(path.join(targetDir, 'app.ts'), 'utf8'), /path\.join\(import\.meta\.dirname, 'plugins'\)/)
+
+  const pluginIndex = fs.readFileSync(path.join(targetDir, 'plugins', 'users', 'index.ts'), 'utf8')
+  assert.match(pluginIndex, /'\.\/routes\/list\/index\.js'/)
+  assert.match(pluginIndex, /'\.\/hooks\/audit\.js'/)
+  assert.match(fs.readFileSync(path.join(targetDir, 'tracing.ts'), 'utf8'), /^import \{ FastifyOtelInstrumentation \} from '@fastify\/otel'$/m)
+
+  checkGeneratedProject(targetDir, ['test/plugins/support.test.ts', 'test/routes/root.test.ts', 'test/plugins/users.test.ts'])
+
+  removeDir(targetDir)
+})
+
+test('CLI scaffolds routes with HTTP methods, a path parameter and typed schemas', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-routes')
+  removeDir(targetDir)
+
+  const inputs = [
+    '1',         // Default setup
+    '1',         // Route
+    'users',     // Plugin name
+    'items',     // Route name
+    'get, post', // HTTP methods
+    'id',        // Path parameter
+    '1',         // Route
+    'health',    // Route name
+    '',          // HTTP methods (default GET)
+    '',          // No path parameter
+    '6',         // Done
+    '2',         // No other plugin
+    '1'          // Generate
+  ]
+  const { code, output } = await runCli(['.tmp-test-routes'], inputs)
+
+  assert.strictEqual(code, 0)
+  assert.match(output, /routes: \/items\/:id \[GET, POST\], \/health \[GET\]/, 'Summary should list methods per route')
+
+  const routeFile = fs.readFileSync(path.join(targetDir, 'plugins', 'users', 'routes', 'items', 'index.ts'), 'utf8')
+  assert.match(routeFile, /fastify\.get<\{ Params: RouteParams, Reply: RouteReply \}>\('\/:id'/)
+  assert.match(routeFile, /fastify\.post<\{ Params: RouteParams, Body: RouteBody, Reply: RouteReply \}>\('\/:id'/)
+  assert.match(routeFile, /body: bodySchema/)
+
+  const pluginTest = fs.readFileSync(path.join(targetDir, 'test', 'plugins', 'users.test.ts'), 'utf8')
+  assert.match(pluginTest, /app\.inject\(\{ method: 'POST', url: '\/users\/items\/1', payload: \{\} \}\)/)
+  assert.match(pluginTest, /app\.inject\(\{ method: 'GET', url: '\/users\/health' \}\)/)
+
+  checkGeneratedProject(targetDir, ['test/routes/root.test.ts', 'test/plugins/users.test.ts'])
+
+  const inject = runInProject(targetDir, [
+    "import('./app').then(async ({ build }) => {",
+    '  const app = await build()',
+    "  const ok = await app.inject({ method: 'POST', url: '/users/items/42', payload: { name: 'x' } })",
+    "  const invalid = await app.inject({ method: 'POST', url: '/users/items/42', payload: 'nope', headers: { 'content-type': 'application/json' } })",
+    '  console.log(JSON.stringify([ok.statusCode, ok.json(), invalid.statusCode]))',
+    '  await app.close()',
+    '})'
+  ].join('\n'))
+  assert.strictEqual(inject.status, 0, inject.stderr)
+  assert.deepStrictEqual(JSON.parse(inject.stdout), [200, { plugin: 'users', route: 'items' }, 400])
+
+  removeDir(targetDir)
+})
+
+test('CLI scaffolds hooks with a typed handler for every lifecycle event', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-hooks')
+  removeDir(targetDir)
+
+  const inputs = [
+    '1',      // Default setup
+    '2',      // Hook
+    'audit',  // Plugin name
+    'timing', // Hook name
+    '4',      // preHandler
+    '6',      // Done
+    '2',      // No other plugin
+    '1'       // Generate
+  ]
+  const { code, output } = await runCli(['.tmp-test-hooks'], inputs)
+
+  assert.strictEqual(code, 0)
+  assert.match(output, /hooks: timing \(preHandler\)/, 'Summary should show the hook event')
+  assert.match(fs.readFileSync(path.join(targetDir, 'README.md'), 'utf8'), /- hook `timing \(preHandler\)`/)
+  assert.match(
+    fs.readFileSync(path.join(targetDir, 'plugins', 'audit', 'hooks', 'timing.ts'), 'utf8'),
+    /fastify\.addHook\('preHandler', async function \(request: FastifyRequest, reply: FastifyReply\): Promise<void> \{\n {4}request\.log\.debug\(\{ hook: 'timing' \}, 'preHandler hook'\)\n {2}\}\)/
+  )
+
+  for (const event of hookEvents.filter((candidate) => candidate !== 'preHandler')) {
+    const added = await runCli(['add', 'hook', 'audit', `on-${event.toLowerCase()}`, '--event', event], [], targetDir)
+    assert.strictEqual(added.code, 0, added.errorOutput)
+  }
+  assert.match(
+    fs.readFileSync(path.join(targetDir, 'plugins', 'audit', 'hooks', 'on-onsend.ts'), 'utf8'),
+    /payload: unknown\): Promise<unknown> \{\n {4}request\.log\.debug\(\{ hook: 'on-onsend' \}, 'onSend hook'\)\n {4}return payload/
+  )
+
+  // The plugin test file is merged on every `add`, so it covers all eleven hooks.
+  const pluginTest = fs.readFileSync(path.join(targetDir, 'test', 'plugins', 'audit.test.ts'), 'utf8')
+  for (const event of hookEvents) {
+    assert.match(pluginTest, new RegExp(`hook [a-z-]+ runs on ${event}'`))
+  }
+  checkGeneratedProject(targetDir, ['test/routes/root.test.ts', 'test/plugins/audit.test.ts'])
+
+  removeDir(targetDir)
+})
+
+test('CLI generates fastify-plugin wrapped plugins whose decorators are shared with the app', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-plugin-load')
+  removeDir(targetDir)
+
+  const inputs = [
+    '1',           // Default setup
+    '3',           // Decorator
+    'user-events', // Plugin name
+    '1',           // instance
+    '4',           // Child plugin
+    'audit-log',   // Child plugin name
+    '1',           // Route
+    'items',       // Route name
+    '',            // HTTP methods (default GET)
+    '',            // No path parameter
+    '2',           // Hook
+    'stamp',       // Hook name
+    '8',           // onSend
+    '6',           // Done
+    '2',           // No other plugin
+    '1'            // Generate
+  ]
+  assert.strictEqual((await runCli(['.tmp-test-plugin-load'], inputs)).code, 0)
+
+  const pluginIndex = fs.readFileSync(path.join(targetDir, 'plugins', 'user-events', 'index.ts'), 'utf8')
+  assert.doesNotMatch(pluginIndex, /import\(/, 'Plugin index should use static imports only')
+  assert.match(pluginIndex, /export default fp\(userEventsPlugin, \{\n {2}name: 'user-events',/)
+  assert.match(pluginIndex, /dependencies: \[\]/)
+
+  checkGeneratedProject(targetDir, ['test/routes/root.test.ts', 'test/plugins/user-events.test.ts'])
+
+  const loaded = runInProject(targetDir, [
+    "import('./app').then(async ({ build }) => {",
+    '  const app = await build()',
+    '  await app.ready()',
+    "  const routeResponse = await app.inject({ method: 'GET', url: '/user-events/items' })",
+    "  const rootResponse = await app.inject({ method: 'GET', url: '/' })",
+    '  console.log(JSON.stringify({',
+    '    decorator: app.userEventsService.ping(),',
+    '    child: app.auditLogReady,',
+    '    route: routeResponse.json(),',
+    '    hookOnRoute: routeResponse.statusCode === 200,',
+    '    rootStatus: rootResponse.statusCode',
+    '  }))',
+    '  await app.close()',
+    '})'
+  ].join('\n'))
+  assert.strictEqual(loaded.status, 0, loaded.stderr)
+  assert.deepStrictEqual(JSON.parse(loaded.stdout), {
+    decorator: 'pong',
+    child: true,
+    route: { plugin: 'user-events', route: 'items' },
+    hookOnRoute: true,
+    rootStatus: 200
+  })
+
+  removeDir(targetDir)
+})
+
+test('CLI types instance, request and reply decorators through declaration merging', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-decorators')
+  removeDir(targetDir)
+
+  const inputs = [
+    '1',            // Default setup
+    '3',            // Decorator
+    'tenants',      // Plugin name
+    '2',            // request
+    '4',            // Child plugin
+    'tenant-cache', // Child plugin name
+    '6',            // Done
+    '1',            // Another plugin
+    '3',            // Decorator
+    'billing',      // Plugin name
+    '3',            // reply
+    '6',            // Done
+    '2',            // No other plugin
+    '1'             // Generate
+  ]
+  assert.strictEqual((await runCli(['.tmp-test-decorators'], inputs)).code, 0)
+
+  const tenantsDecorator = fs.readFileSync(path.join(targetDir, 'plugins', 'tenants', 'decorator.ts'), 'utf8')
+  assert.match(tenantsDecorator, /declare module 'fastify' \{\n {2}interface FastifyRequest \{\n {4}tenantsService: TenantsService/)
+  assert.match(tenantsDecorator, /fastify\.decorateRequest\('tenantsService'/)
+  const billingDecorator = fs.readFileSync(path.join(targetDir, 'plugins', 'billing', 'decorator.ts'), 'utf8')
+  assert.match(billingDecorator, /interface FastifyReply \{\n {4}billingService: BillingService/)
+  assert.match(billingDecorator, /fastify\.decorateReply\('billingService'/)
+
+  const invalidTarget = await runCli(['add', 'decorator', 'audit', '--target', 'socket'], [], targetDir)
+  assert.strictEqual(invalidTarget.code, 1)
+  assert.match(invalidTarget.errorOutput, /Invalid --target: socket/)
+  const addDecorator = await runCli(['add', 'decorator', 'audit'], [], targetDir)
+  assert.strictEqual(addDecorator.code, 0, addDecorator.errorOutput)
+  assert.match(fs.readFileSync(path.join(targetDir, 'plugins', 'audit', 'decorator.ts'), 'utf8'), /interface FastifyInstance \{\n {4}auditService: AuditService/)
+
+  // Type-checked under strict mode: every decorator must be known to the Fastify types.
+  fs.writeFileSync(path.join(targetDir, 'test', 'plugins', 'decorators.test.ts'), [
+    "import { test } from 'node:test'",
+    "import assert from 'node:assert'",
+    "import { build } from '../../app'",
+    '',
+    "test('decorators are typed and available', async (t) => {",
+    '  const app = await build()',
+    '  t.after(() => app.close())',
+    "  app.get('/decorated', async (request, reply) => {",
+    '    return { request: request.tenantsService.ping(), reply: reply.billingService.ping() }',
+    '  })',
+    '',
+    "  const response = await app.inject({ method: 'GET', url: '/decorated' })",
+    "  assert.deepStrictEqual(response.json(), { request: 'pong', reply: 'pong' })",
+    "  assert.strictEqual(app.someSupport(), 'hugs')",
+    "  assert.strictEqual(app.auditService.ping(), 'pong')",
+    '  assert.strictEqual(app.tenantCacheReady, true)',
+    '})',
+    ''
+  ].join('\n'))
+  checkGeneratedProject(targetDir, [
+    'test/plugins/support.test.ts',
+    'test/plugins/decorators.test.ts',
+    'test/plugins/tenants.test.ts',
+    'test/plugins/billing.test.ts',
+    'test/plugins/audit.test.ts'
+  ])
+
+  removeDir(targetDir)
+})
+
+test('CLI previews files with --dry-run and the Preview files choice, matching the in-memory build', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-preview')
+  removeDir(targetDir)
+
+  // Follow-up options of disabled plugins resolve to unset rather than their defaults
+  const defaults = resolveOptionsFromAnswers({})
+  const expected = new Map(buildProjectFiles('.tmp-test-preview', defaults, []).map((file) => [file.relativePath, file.content]))
+
+  const dryRun = await runCli(['.tmp-test-preview', '--dry-run'])
+  assert.strictEqual(dryRun.code, 0, dryRun.errorOutput)
+  assert.strictEqual(fs.existsSync(targetDir), false, 'Dry run should not write anything')
+  assert.match(dryRun.output, /Files to create:\n\.tmp-test-preview\/\n/)
+  assert.match(dryRun.output, /├── plugins\/\n│ {3}├── sensible\.ts \(\d+ B\)\n│ {3}└── support\.ts \(\d+ B\)\n/)
+  assert.match(dryRun.output, /├── app\.ts \(\d+(\.\d)? K?B\)\n/)
+  assert.ok(dryRun.output.includes(`${expected.size} files, `), 'Should print the file count')
+  assert.match(dryRun.output, /Dry run\. No files were written\./)
+  assert.doesNotMatch(dryRun.output, /--- app\.ts ---/)
+
+  const withContent = await runCli(['.tmp-test-preview', '--dry-run', '--show-content'])
+  assert.strictEqual(withContent.code, 0, withContent.errorOutput)
+  assert.ok(withContent.output.includes(`--- app.ts ---\n${expected.get('app.ts')}`), 'Should print each file content')
+
+  const contentOnly = await runCli(['.tmp-test-preview', '--show-content'])
+  assert.strictEqual(contentOnly.code, 1)
+  assert.match(contentOnly.errorOutput, /--show-content only applies with --dry-run/)
+
+  const inputs = [
+    '1', // Default setup
+    '6', // Done (plugin scaffold)
+    '3', // Preview files
+    '2', // Show file contents
+    '1'  // Generate
+  ]
+  const interactive = await runCli(['.tmp-test-preview'], inputs)
+  assert.strictEqual(interactive.code, 0, interactive.errorOutput)
+  assert.match(interactive.output, /Files to create:/)
+  assert.ok(interactive.output.includes(`--- config.ts ---\n${expected.get('config.ts')}`))
+  assert.deepStrictEqual(readTree(targetDir), expected, 'Written files should match the in-memory build')
+
+  removeDir(targetDir)
+})
+
+test('CLI generation is atomic: failures and aborts leave no target or temporary directory behind', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-atomic')
+  removeDir(targetDir)
+  const leftovers = (): string[] => fs.readdirSync(__dirname).filter((name) => name.startsWith('..tmp-test-atomic-'))
+
+  const brokenFiles = [
+    { relativePath: 'app.ts', content: '' },
+    { relativePath: 'app.ts/nested.ts', content: '' }
+  ]
+  await assert.rejects(writeProjectFiles(targetDir, brokenFiles), WriteError)
+  assert.strictEqual(fs.existsSync(targetDir), false)
+  assert.deepStrictEqual(leftovers(), [])
+
+  const controller = new AbortController()
+  const files = [{ relativePath: 'app.ts', content: '' }, { relativePath: 'server.ts', content: '' }]
+  const pending = writeProjectFiles(targetDir, files, { signal: controller.signal })
+  controller.abort()
+  await assert.rejects(pending, GenerationInterruptedError)
+  assert.strictEqual(fs.existsSync(targetDir), false)
+  assert.deepStrictEqual(leftovers(), [])
+
+  fs.mkdirSync(targetDir)
+  await assert.rejects(writeProjectFiles(targetDir, []), TargetDirectoryError)
+  assert.deepStrictEqual(leftovers(), [])
+
+  removeDir(targetDir)
+})
+
+test('CLI, createProject and add reject plugin names taken by built-in plugins', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-reserved')
+  removeDir(targetDir)
+
+  const inputs = [
+    '1',       // Default setup
+    '3',       // Decorator
+    'support', // Plugin name, its test file would clash with test/plugins/support.test.ts
+    'billing', // Plugin name, asked again
+    '1',       // instance
+    '6',       // Done
+    '2',       // No other plugin
+    '2'        // Cancel
+  ]
+  const wizard = await runCli(['.tmp-test-reserved'], inputs)
+  assert.strictEqual(wizard.code, 0, wizard.errorOutput)
+  assert.match(wizard.output, /"support" is the name of a built-in plugin/)
+  assert.match(wizard.output, /- billing: decorator \(instance\)/)
+
+  for (const [pluginName, options] of [['metrics', { metrics: true }], ['database', { database: 'sqlite' }], ['jwt', {}]] as const) {
+    await assert.rejects(
+      createProject({ targetDir: '.tmp-test-reserved', options, plugins: [{ pluginName }], dryRun: true }),
+      (err: Error) => err instanceof InvalidPluginError && err.message.includes(`"${pluginName}" is the name of a built-in plugin`)
+    )
+  }
+
+  assert.strictEqual((await runCli(['.tmp-test-reserved', '--yes'])).code, 0)
+  const add = await runCli(['add', 'route', 'auth', 'login'], [], targetDir)
+  assert.strictEqual(add.code, 1)
+  assert.match(add.errorOutput, /"auth" is the name of a built-in plugin/)
+  assert.strictEqual(fs.existsSync(path.join(targetDir, 'plugins', 'auth')), false)
+  removeDir(targetDir)
+})
+
+test('createProject writes to an injected filesystem without printing or exiting', async () => {
+  const code = [
+    "const { createProject, createMemoryFileSystem } = require('./src/index')",
+    'const memory = createMemoryFileSystem()',
+    'createProject({',
+    "  targetDir: 'api-app',",
+    "  cwd: '/virtual',",
+    "  options: { port: 8080, 'module-system': 'esm' },",
+    "  plugins: [{ pluginName: 'billing', routes: [{ name: 'invoices', methods: ['GET', 'POST'], param: 'id' }], hooks: [{ name: 'audit' }], hasDecorator: true }],",
+    '  fs: memory',
+    '}).then((files) => {',
+    '  process.stdout.write(JSON.stringify({',
+    '    files: files.map((file) => file.relativePath),',
+    '    written: [...memory.files.keys()],',
+    "    packageJson: JSON.parse(memory.files.get('/virtual/api-app/package.json'))",
+    '  }))',
+    '})'
+  ].join('\n')
+  const child = spawnSync(process.execPath, ['-e', code], { cwd: __dirname, encoding: 'utf8', timeout: 30000 })
+  assert.strictEqual(child.status, 0, child.stderr)
+  assert.strictEqual(child.stderr, '')
+
+  const result = JSON.parse(child.stdout) as { files: string[], written: string[], packageJson: { type?: string } }
+  assert.deepStrictEqual(result.written, result.files.map((relativePath) => `/virtual/api-app/${relativePath}`))
+  assert.ok(result.files.includes('plugins/billing/routes/invoices/index.ts'))
+  assert.ok(result.files.includes('test/plugins/billing.test.ts'))
+  assert.strictEqual(result.packageJson.type, 'module')
+
+  const memory = createMemoryFileSystem()
+  await createProject({ targetDir: '/virtual/taken', fs: memory })
+  await assert.rejects(createProject({ targetDir: '/virtual/taken', fs: memory }), TargetDirectoryError)
+  await assert.rejects(createProject({ targetDir: '/virtual/bad', options: { port: 'abc' }, fs: memory }), InvalidOptionError)
+  await assert.rejects(createProject({ targetDir: '/virtual/bad', options: { colour: true }, fs: memory }), /Unknown setup option: colour/)
+  await assert.rejects(createProject({ targetDir: '/virtual/bad', plugins: [{ pluginName: 'Billing' }], fs: memory }), InvalidPluginError)
+  for (const pluginName of ['api-', 'v-', 'h--x']) {
+    await assert.rejects(createProject({ targetDir: '/virtual/bad', plugins: [{ pluginName }], fs: memory }), InvalidPluginError)
+  }
+  await assert.rejects(
+    createProject({ targetDir: '/virtual/bad', plugins: [{ pluginName: 'billing', hooks: [{ name: 'audit' }, { name: 'audit' }] }], fs: memory }),
+    /Hook "audit" already exists for plugin "billing"/
+  )
+  assert.ok([...memory.files.keys()].every((filePath) => filePath.startsWith('/virtual/taken/')), 'Failed calls should write nothing')
+})
+
+test('CLI renders template overrides from --templates or a config entry, and add reuses them', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-templates')
+  const templatesDir = path.join(__dirname, '.tmp-test-templates-dir')
+  const configPath = path.join(__dirname, '.tmp-test-templates.json')
+  removeDir(targetDir)
+  removeDir(templatesDir)
+  fs.mkdirSync(path.join(templatesDir, 'plugin'), { recursive: true })
+  fs.writeFileSync(path.join(templatesDir, 'app.ts'), '// Acme service on port {{ options.port }}\n{{ default }}')
+  fs.writeFileSync(path.join(templatesDir, 'README.md'), '# {{ path }} for {{ options.logLevel }} logs\n')
+  fs.writeFileSync(path.join(templatesDir, 'plugin', 'route.ts'), '// {{ plugin.pluginName }}/{{ route.name }} {{ route.methods }} on {{ options.port }}\n{{default}}')
+  fs.writeFileSync(configPath, JSON.stringify({ port: 8080, templates: path.basename(templatesDir) }))
+
+  const { code, errorOutput } = await runCli(['.tmp-test-templates', '--config', configPath])
+  fs.rmSync(configPath)
+  assert.strictEqual(code, 0, errorOutput)
+  const appContent = fs.readFileSync(path.join(targetDir, 'app.ts'), 'utf8')
+  assert.match(appContent, /^\/\/ Acme service on port 8080\nimport /, 'The override should wrap the default content')
+  assert.strictEqual(fs.readFileSync(path.join(targetDir, 'README.md'), 'utf8'), '# README.md for fatal logs\n')
+
+  // add and upgrade reuse the overrides and options recorded in fastify-new.json
+  const addRoute = await runCli(['add', 'route', 'users', 'list', '--methods', 'GET,POST'], [], targetDir)
+  assert.strictEqual(addRoute.code, 0, addRoute.errorOutput)
+  const routeContent = fs.readFileSync(path.join(targetDir, 'plugins', 'users', 'routes', 'list', 'index.ts'), 'utf8')
+  assert.match(routeContent, /^\/\/ users\/list \["GET","POST"\] on 8080\n/)
+  const upgrade = await runCli(['upgrade'], [], targetDir)
+  assert.strictEqual(upgrade.code, 0, upgrade.errorOutput)
+  assert.match(upgrade.output, /Already up to date\./)
+  checkGeneratedProject(targetDir, ['test/plugins/users.test.ts'])
+
+  // add merges against the index recorded in the manifest, so lines new templates add reach the file on disk
+  fs.writeFileSync(path.join(templatesDir, 'plugin', 'index.ts'), '// Acme plugin {{ plugin.pluginName }}\n{{ default }}')
+  const addHook = await runCli(['add', 'hook', 'users', 'audit', '--templates', templatesDir], [], targetDir)
+  assert.strictEqual(addHook.code, 0, addHook.errorOutput)
+  const indexContent = fs.readFileSync(path.join(targetDir, 'plugins', 'users', 'index.ts'), 'utf8')
+  assert.match(indexContent, /^\/\/ Acme plugin users\n/)
+  assert.match(indexContent, /\.\/hooks\/audit/)
+
+  fs.writeFileSync(path.join(templatesDir, 'plugin', 'routes.ts'), '')
+  const unknownTemplate = await runCli(['.tmp-test-templates-unknown', '--templates', templatesDir])
+  assert.strictEqual(unknownTemplate.code, 1)
+  assert.match(unknownTemplate.errorOutput, /Unknown template "plugin\/routes\.ts"/)
+
+  const memory = createMemoryFileSystem()
+  await assert.rejects(
+    createProject({ targetDir: '/virtual/bad', templates: { 'server.ts': '{{ options.prot }}' }, fs: memory }),
+    (err: unknown) => err instanceof TemplateError && /Unknown template variable "options\.prot" in template "server\.ts"/.test(err.message)
+  )
+  await assert.rejects(createProject({ targetDir: '/virtual/bad', templates: '.tmp-test-missing-templates', fs: memory }), TemplateError)
+  assert.strictEqual(memory.files.size, 0)
+
+  removeDir(templatesDir)
+  removeDir(targetDir)
+})
+
+test('CLI applies built-in and team presets from the setup menu or --preset', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-presets')
+  const presetsPath = path.join(__dirname, '.tmp-test-presets.json')
+  removeDir(targetDir)
+
+  // 3 -> Minimal preset, 6 -> Done with plugins, 1 -> Generate
+  const minimal = await runCli(['.tmp-test-presets'], ['3', '6', '1'])
+  assert.strictEqual(minimal.code, 0, minimal.errorOutput)
+  assert.match(minimal.output, /- sensible: false/)
+  const files = [...readTree(targetDir).keys()]
+  assert.ok(!files.some((relativePath) => /sensible|support/.test(relativePath)), 'Minimal should skip the sensible and support plugins')
+  assert.ok(files.includes('plugins/.gitkeep'), 'plugins/ should still exist for autoload')
+  const packageJson = JSON.parse(fs.readFileSync(path.join(targetDir, 'package.json'), 'utf8')) as { dependencies: Record<string, string> }
+  assert.strictEqual(packageJson.dependencies['@fastify/sensible'], undefined)
+  checkGeneratedProject(targetDir, ['test/routes/root.test.ts'])
+  removeDir(targetDir)
+
+  const restApi = await runCli(['.tmp-test-presets', '--preset', 'rest-api', '--port', '8080', '--dry-run'])
+  assert.strictEqual(restApi.code, 0, restApi.errorOutput)
+  assert.match(restApi.output, /- logLevel: info/, 'Preset options should apply')
+  assert.match(restApi.output, /- port: 8080/, 'Flags should override the preset')
+  assert.match(restApi.output, /- cors: true/)
+  assert.match(restApi.output, /- catalog: routes x2/)
+  assert.match(restApi.output, /product\/\n/, 'Preset plugins should be generated')
+
+  fs.writeFileSync(presetsPath, JSON.stringify({
+    presets: [{
+      key: 'acme',
+      name: 'Acme service',
+      description: 'team defaults',
+      options: { port: 4000 },
+      plugins: [{ pluginName: 'billing', hooks: [{ name: 'audit' }] }]
+    }]
+  }))
+  // 6 -> Acme preset; Decorator for "billing" is refused, then "orders" gets an instance decorator; 2 -> Cancel
+  const team = await runCli(['.tmp-test-presets', '--presets', presetsPath], ['6', '3', 'billing', 'orders', '1', '6', '2', '2'])
+  assert.strictEqual(team.code, 0, team.errorOutput)
+  assert.match(team.output, /Acme service preset \(team defaults\)/)
+  assert.match(team.output, /- port: 4000/)
+  assert.match(team.output, /Plugin "billing" already exists\./)
+  assert.match(team.output, /- billing: hooks x1\n[\s\S]*- orders: decorator \(instance\)/)
+  assert.strictEqual(fs.existsSync(targetDir), false)
+
+  const unknownPreset = await runCli(['.tmp-test-presets', '--preset', 'nope', '--presets', presetsPath])
+  assert.strictEqual(unknownPreset.code, 1)
+  assert.match(unknownPreset.errorOutput, /Unknown preset: nope\. Expected one of: minimal, rest-api, microservice, acme\./)
+
+  fs.writeFileSync(presetsPath, JSON.stringify({ presets: [{ key: 'broken', options: { port: 'abc' } }] }))
+  const invalidPreset = await runCli(['.tmp-test-presets', '--presets', presetsPath])
+  assert.throws(() => loadPresetsFile(presetsPath), InvalidOptionError)
+  fs.rmSync(presetsPath)
+  assert.strictEqual(invalidPreset.code, 1)
+  assert.match(invalidPreset.errorOutput, /Invalid number for Port/)
+  assert.throws(() => loadPresetsFile(presetsPath), PresetsFileError)
+})
+
+test('CLI adds ecosystem plugins with follow-up options, dependencies and smoke tests', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-ecosystem')
+  removeDir(targetDir)
+
+  const ecosystemFlags = [
+    '--cors', '--cors-origins', 'https://app.example.com',
+    '--helmet',
+    '--rate-limit', '--rate-limit-max', '50',
+    '--cookie',
+    '--jwt',
+    '--multipart',
+    '--static-files', '--static-prefix', 'assets',
+    '--compress'
+  ]
+  // The smoke tests request the root route, which moves under the prefix
+  const { code, errorOutput } = await runCli(['.tmp-test-ecosystem', '--prefix', '/api', ...ecosystemFlags])
+  assert.strictEqual(code, 0, errorOutput)
+
+  const names = ['cors', 'helmet', 'rate-limit', 'cookie', 'jwt', 'multipart', 'static', 'compress']
+  const packageJson = JSON.parse(fs.readFileSync(path.join(targetDir, 'package.json'), 'utf8')) as { dependencies: Record<string, string> }
+  for (const name of names) {
+    assert.ok(fs.existsSync(path.join(targetDir, 'plugins', `${name}.ts`)), `plugins/${name}.ts should exist`)
+    assert.ok(packageJson.dependencies[`@fastify/${name}`], `@fastify/${name} should be a dependency`)
+  }
+  assert.match(fs.readFileSync(path.join(targetDir, 'plugins', 'cors.ts'), 'utf8'), /config\.corsOrigins\.split/)
+  const dotenv = fs.readFileSync(path.join(targetDir, '.env'), 'utf8')
+  assert.match(dotenv, /^CORS_ORIGINS=https:\/\/app\.example\.com$/m)
+  assert.match(dotenv, /^RATE_LIMIT_MAX=50$/m)
+  assert.match(dotenv, /^RATE_LIMIT_WINDOW="1 minute"$/m)
+  assert.match(dotenv, /^STATIC_PREFIX=assets$/m)
+  assert.match(fs.readFileSync(path.join(targetDir, 'plugins', 'compress.ts'), 'utf8'), /threshold: config\.compressThreshold/)
+  assert.match(dotenv, /^JWT_EXPIRES_IN=1h$/m)
+  assert.match(dotenv, /^JWT_SECRET=[0-9a-f]{64}$/m, 'The JWT secret should be generated into .env')
+  assert.match(fs.readFileSync(path.join(targetDir, '.env.example'), 'utf8'), /^JWT_SECRET=$/m, 'The example should not contain the secret')
+  checkGeneratedProject(targetDir, [...names.map((name) => `test/plugins/${name}.test.ts`), 'test/routes/root.test.ts'])
+  removeDir(targetDir)
+
+  const gatedOff = await runCli(['.tmp-test-ecosystem', '--cors-origins', 'https://app.example.com'])
+  assert.strictEqual(gatedOff.code, 1)
+  assert.match(gatedOff.errorOutput, /CORS allowed origins \(comma separated, \* for any\) only applies with --cors\./)
+
+  const [configFile] = (await createProject({ targetDir: 'quoted-app', options: { 'static-files': true, 'static-prefix': "it's\\here" }, dryRun: true }))
+    .filter((file) => file.relativePath === 'config.ts')
+  assert.ok(configFile.content.includes("STATIC_PREFIX: { type: 'string', default: 'it\\'s\\\\here' }"), 'Quotes and backslashes should be escaped')
+
+  // Guided setup: skip every category but Ecosystem Plugins, enable CORS only, then cancel
+  const ecosystemIndex = categories.findIndex((category) => category.key === 'ecosystem')
+  const guided = await runCli(['.tmp-test-ecosystem'], [
+    '2',
+    ...skipCategories(ecosystemIndex),
+    '2', '2', 'https://app.example.com, https://admin.example.com', '1', '1', '1', '1', '1', '1', '1', '1',
+    ...skipCategories(categories.length - ecosystemIndex - 1),
+    '6', '2'
+  ])
+  assert.strictEqual(guided.code, 0, guided.errorOutput)
+  assert.match(guided.output, /- corsOrigins: https:\/\/app\.example\.com, https:\/\/admin\.example\.com/)
+  assert.match(guided.output, /- rateLimitMax: \(default\/unset\)/)
+  assert.ok(!guided.output.includes('Rate limit: requests per window'), 'Follow-ups of disabled plugins should not be asked')
+  assert.strictEqual(fs.existsSync(targetDir), false)
+})
+
+test('CLI documents every generated route with OpenAPI under the configured prefix', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-swagger')
+  removeDir(targetDir)
+
+  const { code, errorOutput } = await runCli(['.tmp-test-swagger', '--preset', 'rest-api', '--swagger', '--prefix', '/api'])
+  assert.strictEqual(code, 0, errorOutput)
+  const addRoute = await runCli(['add', 'route', 'catalog', 'refunds', '--methods', 'POST'], [], targetDir)
+  assert.strictEqual(addRoute.code, 0, addRoute.errorOutput)
+  assert.match(fs.readFileSync(path.join(targetDir, 'plugins', 'catalog', 'index.ts'), 'utf8'), /dependencies: \['swagger'\]/)
+  checkGeneratedProject(targetDir, ['test/plugins/swagger.test.ts', 'test/plugins/catalog.test.ts', 'test/routes/root.test.ts'])
+
+  const documentation = runInProject(targetDir, [
+    "import('./app').then(async ({ build }) => {",
+    '  const app = await build()',
+    "  const response = await app.inject({ method: 'GET', url: '/api/documentation/json' })",
+    '  const paths = response.json().paths',
+    '  console.log(JSON.stringify(Object.fromEntries(Object.entries(paths).map(([url, operations]) =>',
+    '    [url, Object.values(operations).map((operation) => [operation.summary, ...operation.tags].join(\' | \'))]))))',
+    '  await app.close()',
+    '})'
+  ].join('\n'), { LOG_LEVEL: 'fatal' })
+  assert.strictEqual(documentation.status, 0, documentation.stderr)
+  const paths = JSON.parse(documentation.stdout) as Record<string, string[]>
+  // The prefix applies to routes/; plugin routes live under /<plugin>
+  assert.deepStrictEqual(paths['/catalog/products/'], ['List products | catalog', 'Create products | catalog'])
+  assert.deepStrictEqual(paths['/catalog/product/{id}'], ['Get product by id | catalog', 'Replace product by id | catalog', 'Delete product by id | catalog'])
+  assert.deepStrictEqual(paths['/catalog/refunds/'], ['Create refunds | catalog'], 'Routes added later should be documented')
+  assert.deepStrictEqual(paths['/api/'], ['Check that the service is up | root'])
+  assert.deepStrictEqual(paths['/api/root/'], ['Example nested route | root'])
+
+  removeDir(targetDir)
+})
+
+test('CLI adds health probes whose readiness fails during the shutdown grace window', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-health')
+  removeDir(targetDir)
+
+  const { code, errorOutput } = await runCli(['.tmp-test-health', '--preset', 'microservice', '--swagger', '--max-heap-used-bytes', '1000000000'])
+  assert.strictEqual(code, 0, errorOutput)
+  const healthPlugin = fs.readFileSync(path.join(targetDir, 'plugins', 'health.ts'), 'utf8')
+  assert.match(healthPlugin, /maxHeapUsedBytes: config\.maxHeapUsedBytes,/)
+  const dotenv = fs.readFileSync(path.join(targetDir, '.env'), 'utf8')
+  assert.match(dotenv, /^MAX_HEAP_USED_BYTES=1000000000$/m)
+  assert.match(dotenv, /^MAX_EVENT_LOOP_DELAY=1000$/m)
+  const packageJson = JSON.parse(fs.readFileSync(path.join(targetDir, 'package.json'), 'utf8')) as { dependencies: Record<string, string> }
+  assert.ok(packageJson.dependencies['@fastify/under-pressure'])
+  checkGeneratedProject(targetDir, ['test/plugins/health.test.ts', 'test/plugins/swagger.test.ts'])
+
+  // SIGTERM starts the grace window: the server still answers, but readiness fails
+  const shutdown = runInProject(targetDir, [
+    "import('./server').then(async () => {",
+    "  const url = 'http://localhost:39517/health/ready'",
+    '  let before',
+    '  for (let attempt = 0; attempt < 100 && before === undefined; attempt++) {',
+    '    before = await fetch(url).then((response) => response.status, () => new Promise((resolve) => setTimeout(resolve, 100)))',
+    '  }',
+    "  process.kill(process.pid, 'SIGTERM')",
+    '  await new Promise((resolve) => setTimeout(resolve, 200))',
+    '  const during = await fetch(url).then((response) => response.status)',
+    '  console.log(JSON.stringify({ before, during }))',
+    '})'
+  ].join('\n'), { PORT: '39517', HOST: 'localhost', CLOSE_GRACE_DELAY: '4000', LOG_LEVEL: 'fatal' })
+  assert.strictEqual(shutdown.status, 0, shutdown.stderr)
+  assert.deepStrictEqual(JSON.parse(shutdown.stdout), { before: 200, during: 503 })
+  removeDir(targetDir)
+
+  const gatedOff = await runCli(['.tmp-test-health', '--max-rss-bytes', '1000'])
+  assert.strictEqual(gatedOff.code, 1)
+  assert.match(gatedOff.errorOutput, /only applies with --health-checks\./)
+  assert.strictEqual(fs.existsSync(targetDir), false)
+})
+
+test('CLI adds Prometheus metrics per scaffolded route, request ID propagation and tracing', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-observability')
+  removeDir(targetDir)
+
+  const { code, errorOutput } = await runCli(['.tmp-test-observability', '--preset', 'rest-api', '--metrics', '--tracing', 'console'])
+  assert.strictEqual(code, 0, errorOutput)
+  const packageJson = JSON.parse(fs.readFileSync(path.join(targetDir, 'package.json'), 'utf8')) as { dependencies: Record<string, string> }
+  assert.ok(packageJson.dependencies['prom-client'])
+  assert.ok(packageJson.dependencies['@fastify/otel'])
+  assert.strictEqual(packageJson.dependencies['@opentelemetry/exporter-trace-otlp-http'], undefined)
+  assert.match(fs.readFileSync(path.join(targetDir, '.env.example'), 'utf8'), /^REQUEST_ID_HEADER=x-request-id$/m)
+  checkGeneratedProject(targetDir, ['test/plugins/metrics.test.ts', 'test/plugins/swagger.test.ts', 'test/routes/root.test.ts'])
+
+  const observed = runInProject(targetDir, [
+    "import('./tracing').then(async ({ startTracing }) => {",
+    '  const sdk = startTracing()',
+    "  const { build } = await import('./app')",
+    '  const app = await build()',
+    "  const forwarded = await app.inject({ method: 'GET', url: '/catalog/products', headers: { 'x-request-id': 'upstream-42' } })",
+    "  const generated = await app.inject({ method: 'GET', url: '/catalog/products' })",
+    "  const metrics = await app.inject({ method: 'GET', url: '/metrics' })",
+    '  await app.close()',
+    '  await sdk.shutdown()',
+    "  console.log('RESULT ' + JSON.stringify({",
+    "    forwarded: forwarded.headers['x-request-id'],",
+    "    generated: generated.headers['x-request-id'],",
+    "    series: metrics.body.split('\\n').filter((line) => line.startsWith('http_request_duration_seconds_count'))",
+    '  }))',
+    '})'
+  ].join('\n'), { LOG_LEVEL: 'fatal' })
+  assert.strictEqual(observed.status, 0, observed.stderr)
+  // The console exporter prints the spans before the result
+  assert.match(observed.stdout, /traceId/)
+  const result = JSON.parse(observed.stdout.slice(observed.stdout.lastIndexOf('RESULT ') + 'RESULT '.length)) as { forwarded: string, generated: string, series: string[] }
+  assert.strictEqual(result.forwarded, 'upstream-42')
+  assert.match(result.generated, /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/)
+  assert.deepStrictEqual(result.series, ['http_request_duration_seconds_count{method="GET",route="/catalog/products",status_code="200"} 2'])
+  removeDir(targetDir)
+
+  const [tracingFile] = (await createProject({ targetDir: 'collector-app', options: { tracing: 'collector' }, dryRun: true }))
+    .filter((file) => file.relativePath === 'tracing.ts')
+  assert.match(tracingFile.content, /traceExporter: new OTLPTraceExporter\(\)/)
+
+  // Guided setup: an empty answer keeps the default header, `none` unsets it
+  const operationsIndex = categories.findIndex((category) => category.key === 'operations')
+  const guided = await runCli(['.tmp-test-observability'], [
+    '2',
+    ...skipCategories(operationsIndex),
+    '2', '1', '1', '1', 'none',
+    ...skipCategories(categories.length - operationsIndex - 1),
+    '6', '1'
+  ])
+  assert.strictEqual(guided.code, 0, guided.errorOutput)
+  assert.match(guided.output, /- requestIdHeader: \(default\/unset\)/)
+  assert.match(fs.readFileSync(path.join(targetDir, '.env'), 'utf8'), /^# REQUEST_ID_HEADER=$/m)
+  removeDir(targetDir)
+})
+
+test('CLI adds a database connection plugin and migrations whose tests run on SQLite', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-database')
+  removeDir(targetDir)
+
+  const { code, errorOutput } = await runCli(['.tmp-test-database', '--database', 'postgres', '--module-system', 'esm'])
+  assert.strictEqual(code, 0, errorOutput)
+  const packageJson = JSON.parse(fs.readFileSync(path.join(targetDir, 'package.json'), 'utf8')) as {
+    scripts: Record<string, string>
+    dependencies: Record<string, string>
+    devDependencies: Record<string, string>
+  }
+  assert.ok(packageJson.dependencies.knex && packageJson.dependencies.pg)
+  assert.ok(packageJson.devDependencies['better-sqlite3'], 'The tests need SQLite')
+  assert.strictEqual(packageJson.scripts['db:migrate'], 'tsx migrate.ts')
+  assert.match(fs.readFileSync(path.join(targetDir, '.env'), 'utf8'), /^DATABASE_URL=postgres:\/\/postgres:postgres@localhost:5432\/\.tmp-test-database$/m)
+  assert.match(fs.readFileSync(path.join(targetDir, 'plugins', 'database.ts'), 'utf8'), /addHook\('onClose'/)
+  checkGeneratedProject(targetDir, ['test/plugins/database.test.ts', 'test/routes/root.test.ts'])
+
+  // Anything but a postgres:// URL is a SQLite file, so the runner can be tried offline
+  const migrate = (...args: string[]) => spawnSync(process.execPath, [require.resolve('tsx/cli'), 'migrate.ts', ...args], {
+    cwd: targetDir,
+    encoding: 'utf8',
+    timeout: 30000,
+    env: { ...process.env, DATABASE_URL: 'migrations.sqlite' }
+  })
+  assert.strictEqual(migrate().stdout.trim(), 'Applied: 0001_create_examples')
+  assert.strictEqual(migrate().stdout.trim(), 'Already up to date.')
+  const rollback = migrate('rollback')
+  assert.strictEqual(rollback.stdout.trim(), 'Reverted: 0001_create_examples', rollback.stderr)
+  removeDir(targetDir)
+
+  const mongo = await runCli(['.tmp-test-database', '--database', 'mongodb'])
+  assert.strictEqual(mongo.code, 0, mongo.errorOutput)
+  assert.match(fs.readFileSync(path.join(targetDir, '.env.example'), 'utf8'), /^DATABASE_URL=mongodb:\/\/localhost:27017\/_tmp-test-database$/m, 'The dot is not allowed in a database name')
+  assert.ok(!fs.existsSync(path.join(targetDir, 'database.ts')), 'Knex options are only generated for SQL databases')
+  // The driver connects on the first operation, so the plugin test runs without a server
+  checkGeneratedProject(targetDir, ['test/plugins/database.test.ts'])
+  removeDir(targetDir)
+})
+
+test('CLI scaffolds CRUD resources from a field list, in the wizard or with add resource', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-resources')
+  removeDir(targetDir)
+
+  const inputs = [
+    '1',                                             // Default setup
+    '5',                                             // Resource
+    'todo',                                          // Plugin name
+    'tasks',                                         // Resource name
+    'title:text',                                    // Unsupported type, asked again
+    'title:string, done:boolean, priority:number',   // Fields
+    '6',                                             // Done
+    '2',                                             // No other plugin
+    '1'                                              // Generate
+  ]
+  const { code, output } = await runCli(['.tmp-test-resources'], inputs)
+  assert.strictEqual(code, 0)
+  assert.match(output, /Unsupported type "text" for field "title"/)
+  assert.match(output, /resources: \/tasks \(title:string, done:boolean, priority:number\)/)
+
+  const schema = fs.readFileSync(path.join(targetDir, 'plugins', 'todo', 'resources', 'tasks', 'schema.ts'), 'utf8')
+  assert.match(schema, /export interface Task \{\n {2}id: number\n {2}title: string\n {2}done: boolean\n {2}priority: number\n\}/)
+  assert.match(schema, /required: \['title', 'done', 'priority'\]/)
+
+  const invalidFields = await runCli(['add', 'resource', 'todo', 'notes', '--fields', 'id:number'], [], targetDir)
+  assert.strictEqual(invalidFields.code, 1)
+  assert.match(invalidFields.errorOutput, /The "id" field is added automatically\./)
+  const taken = await runCli(['add', 'resource', 'todo', 'tasks', '--fields', 'title'], [], targetDir)
+  assert.strictEqual(taken.code, 1)
+  assert.match(taken.errorOutput, /Resource "tasks" already exists for plugin "todo"/)
+
+  const addResource = await runCli(['add', 'resource', 'todo', 'categories', '--fields', 'name, archived:boolean'], [], targetDir)
+  assert.strictEqual(addResource.code, 0, addResource.errorOutput)
+  assert.match(addResource.output, /created plugins\/todo\/resources\/categories\/repository\.ts/)
+  assert.match(addResource.output, /updated plugins\/todo\/index\.ts/)
+  assert.match(fs.readFileSync(path.join(targetDir, 'plugins', 'todo', 'resources', 'categories', 'schema.ts'), 'utf8'), /export interface Category \{/)
+  const pluginIndex = fs.readFileSync(path.join(targetDir, 'plugins', 'todo', 'index.ts'), 'utf8')
+  assert.match(pluginIndex, /scoped\.register\(tasksResource, \{ prefix: '\/tasks' \}\)\n.*scoped\.register\(categoriesResource, \{ prefix: '\/categories' \}\)/)
+
+  checkGeneratedProject(targetDir, ['test/plugins/todo.test.ts'])
+
+  const inject = runInProject(targetDir, [
+    "import('./app').then(async ({ build }) => {",
+    '  const app = await build()',
+    "  const created = await app.inject({ method: 'POST', url: '/todo/tasks', payload: { title: 'Write docs', done: false, priority: 2, owner: 'x' } })",
+    "  const empty = await app.inject({ method: 'PATCH', url: '/todo/tasks/1', payload: {} })",
+    "  const missing = await app.inject({ method: 'PATCH', url: '/todo/tasks/7', payload: { done: true } })",
+    "  const notANumber = await app.inject({ method: 'GET', url: '/todo/tasks/abc' })",
+    '  console.log(JSON.stringify([created.json(), empty.statusCode, missing.statusCode, missing.json(), notANumber.statusCode]))',
+    '  await app.close()',
+    '})'
+  ].join('\n'))
+  assert.strictEqual(inject.status, 0, inject.stderr)
+  assert.deepStrictEqual(JSON.parse(inject.stdout), [
+    { id: 1, title: 'Write docs', done: false, priority: 2 },
+    400,
+    404,
+    { message: 'Task 7 not found' },
+    400
+  ])
+
+  removeDir(targetDir)
+})
+
+test('CLI generates an auth plugin and protected routes tested with and without credentials', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-auth')
+  removeDir(targetDir)
+
+  const inputs = [
+    '2',                                         // Guided setup
+    ...skipCategories(categories.length - 2),
+    '2', '3',                                    // Authentication: api-key
+    '1',                                         // Skip Deployment
+    '1',                                         // Route
+    'billing',                                   // Plugin name
+    'invoices',                                  // Route name
+    'get, post',                                 // HTTP methods
+    'id',                                        // Path parameter
+    '2',                                         // Require authentication
+    '1',                                         // Route
+    'status',                                    // Route name
+    '',                                          // HTTP methods (default GET)
+    '',                                          // No path parameter
+    '1',                                         // Public
+    '6',                                         // Done
+    '2',                                         // No other plugin
+    '1'                                          // Generate
+  ]
+  const { code, output } = await runCli(['.tmp-test-auth'], inputs)
+  assert.strictEqual(code, 0)
+  assert.match(output, /routes: \/invoices\/:id \[GET, POST\] \(protected\), \/status \[GET\]\n/)
+  assert.match(fs.readFileSync(path.join(targetDir, '.env'), 'utf8'), /^API_KEY=[0-9a-f]{64}$/m)
+  assert.match(fs.readFileSync(path.join(targetDir, '.env.example'), 'utf8'), /^API_KEY=$/m)
+  const routeFile = fs.readFileSync(path.join(targetDir, 'plugins', 'billing', 'routes', 'invoices', 'index.ts'), 'utf8')
+  assert.strictEqual(routeFile.match(/onRequest: \[fastify\.authenticate\]/g)?.length, 2)
+  assert.ok(!fs.readFileSync(path.join(targetDir, 'plugins', 'billing', 'routes', 'status', 'index.ts'), 'utf8').includes('authenticate'))
+  assert.match(fs.readFileSync(path.join(targetDir, 'plugins', 'billing', 'index.ts'), 'utf8'), /dependencies: \['auth'\]/)
+
+  const addRoute = await runCli(['add', 'route', 'billing', 'refunds', '--protected'], [], targetDir)
+  assert.strictEqual(addRoute.code, 0, addRoute.errorOutput)
+  const pluginTest = fs.readFileSync(path.join(targetDir, 'test', 'plugins', 'billing.test.ts'), 'utf8')
+  assert.match(pluginTest, /getUnauthorized = await app\.inject\(\{ method: 'GET', url: '\/billing\/refunds' \}\)/)
+  assert.match(pluginTest, /headers: \{ 'x-api-key': config\.apiKey \}/)
+
+  checkGeneratedProject(targetDir, ['test/plugins/auth.test.ts', 'test/plugins/billing.test.ts'])
+  removeDir(targetDir)
+
+  // The JWT strategy registers @fastify/jwt itself, so the JWT plugin is not generated twice
+  const jwt = await runCli(['.tmp-test-auth', '--yes', '--auth', 'jwt', '--jwt'])
+  assert.strictEqual(jwt.code, 0, jwt.errorOutput)
+  assert.ok(!fs.existsSync(path.join(targetDir, 'plugins', 'jwt.ts')))
+  assert.strictEqual(fs.readFileSync(path.join(targetDir, '.env'), 'utf8').match(/^JWT_SECRET=/gm)?.length, 1)
+  checkGeneratedProject(targetDir, ['test/plugins/auth.test.ts'])
+  removeDir(targetDir)
+
+  const basic = await runCli(['.tmp-test-auth', '--yes', '--auth', 'basic'])
+  assert.strictEqual(basic.code, 0, basic.errorOutput)
+  assert.match(fs.readFileSync(path.join(targetDir, '.env'), 'utf8'), /^BASIC_AUTH_USERNAME=.+\nBASIC_AUTH_PASSWORD=.+$/m)
+  checkGeneratedProject(targetDir, ['test/plugins/auth.test.ts'])
+  removeDir(targetDir)
+
+  assert.strictEqual((await runCli(['.tmp-test-auth', '--yes'])).code, 0)
+  const withoutAuth = await runCli(['add', 'route', 'billing', 'refunds', '--protected'], [], targetDir)
+  assert.strictEqual(withoutAuth.code, 1)
+  assert.match(withoutAuth.errorOutput, /Plugin "billing" has protected routes, which need an auth strategy \(--auth\)\./)
+  removeDir(targetDir)
+})
+
+test('CLI generates a Dockerfile and a docker-compose.yml running the selected database', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-docker')
+  removeDir(targetDir)
+
+  const { code, errorOutput } = await runCli([
+    '.tmp-test-docker', '--yes', '--docker', '--docker-compose', '--database', 'postgres',
+    '--port', '8080', '--close-grace-delay', '9000', '--health-checks'
+  ])
+  assert.strictEqual(code, 0, errorOutput)
+  const dockerfile = fs.readFileSync(path.join(targetDir, 'Dockerfile'), 'utf8')
+  assert.match(dockerfile, /^FROM node:22-slim AS build$[\s\S]*^RUN npm run build$[\s\S]*^FROM node:22-slim$/m)
+  assert.match(dockerfile, /^COPY --from=build \/app\/dist \.\/dist$/m)
+  assert.match(dockerfile, /^ENV HOST=0\.0\.0\.0\nEXPOSE 8080\nUSER node$/m)
+  assert.match(dockerfile, /--stop-timeout 10\b/)
+  assert.match(dockerfile, /^HEALTHCHECK .*\/health\/live/m)
+  assert.match(dockerfile, /^CMD \["node", "dist\/server\.js"\]$/m)
+  assert.match(fs.readFileSync(path.join(targetDir, '.dockerignore'), 'utf8'), /^\.env$/m)
+
+  const compose = fs.readFileSync(path.join(targetDir, 'docker-compose.yml'), 'utf8')
+  assert.match(compose, /^ {6}DATABASE_URL: "postgres:\/\/postgres:postgres@db:5432\/\.tmp-test-docker"$/m)
+  assert.match(compose, /^ {6}- "8080:8080"$/m)
+  assert.match(compose, /^ {4}stop_grace_period: 10s$/m)
+  assert.match(compose, /^ {2}db:\n {4}image: postgres:17$/m)
+  assert.match(compose, /condition: service_healthy/)
+  // The image only changes how the app starts, so the project still builds and passes its tests
+  checkGeneratedProject(targetDir, ['test/plugins/database.test.ts'])
+  removeDir(targetDir)
+
+  const withHost = await runCli(['.tmp-test-docker', '--yes', '--docker', '--host', '127.0.0.1', '--database', 'sqlite', '--docker-compose'])
+  assert.strictEqual(withHost.code, 0, withHost.errorOutput)
+  const sqliteDockerfile = fs.readFileSync(path.join(targetDir, 'Dockerfile'), 'utf8')
+  assert.ok(!sqliteDockerfile.includes('ENV HOST'))
+  assert.match(sqliteDockerfile, /^RUN mkdir data && chown node:node data$/m)
+  assert.match(sqliteDockerfile, /^ENV DATABASE_URL=data\/\.tmp-test-docker\.sqlite$/m)
+  assert.match(sqliteDockerfile, /^# docker run --env-file \.env -e DATABASE_URL=data\/\.tmp-test-docker\.sqlite -p 3000:3000 /m)
+  const sqliteCompose = fs.readFileSync(path.join(targetDir, 'docker-compose.yml'), 'utf8')
+  assert.ok(!sqliteCompose.includes('  db:'))
+  assert.match(sqliteCompose, /DATABASE_URL: "data\/\.tmp-test-docker\.sqlite"/)
+  removeDir(targetDir)
+
+  const gatedOff = await runCli(['.tmp-test-docker', '--yes', '--docker-compose'])
+  assert.strictEqual(gatedOff.code, 1)
+  assert.match(gatedOff.errorOutput, /only applies with --docker\./)
+  assert.strictEqual(fs.existsSync(targetDir), false)
+})
+
+test('CLI records a fastify-new.json manifest and upgrade merges a new render into edited files', async () => {
+  const targetDir = path.join(__dirname, '.tmp-test-upgrade')
+  removeDir(targetDir)
+  const manifestPath = path.join(targetDir, 'fastify-new.json')
+  const readManifest = (): ProjectManifest => JSON.parse(fs.readFileSync(manifestPath, 'utf8'))
+  const readFile = (relativePath: string): string => fs.readFileSync(path.join(targetDir, relativePath), 'utf8')
+  const writeFile = (relativePath: string, content: string): void => fs.writeFileSync(path.join(targetDir, relativePath), content)
+
+  assert.strictEqual((await runCli(['.tmp-test-upgrade', '--yes', '--health-checks', '--request-id-header', '', '--ignore-watch', ''])).code, 0)
+  const manifest = readManifest()
+  const { version } = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')) as { version: string }
+  assert.strictEqual(manifest.generatorVersion, version)
+  assert.strictEqual(manifest.options.healthChecks, true)
+  assert.strictEqual(manifest.options.requestIdHeader, null, 'Unset options are recorded, not left to their defaults')
+  assert.strictEqual(manifest.files['server.ts'], readFile('server.ts'))
+  assert.ok(!('.env' in manifest.files), 'The secrets in .env stay out of the manifest')
+
+  const unchanged = await runCli(['upgrade'], [], targetDir)
+  assert.strictEqual(unchanged.code, 0, unchanged.errorOutput)
+  assert.strictEqual(unchanged.output, `Upgrading from fastify-new ${version} to ${version}\nAlready up to date.\n`)
+
+  const addRoute = await runCli(['add', 'route', 'billing', 'invoices'], [], targetDir)
+  assert.strictEqual(addRoute.code, 0, addRoute.errorOutput)
+  const afterAdd = readManifest()
+  assert.deepStrictEqual(afterAdd.pluginScaffolds.map((scaffold) => scaffold.pluginName), ['billing'])
+  assert.strictEqual(afterAdd.files['plugins/billing/routes/invoices/index.ts'], readFile('plugins/billing/routes/invoices/index.ts'))
+
+  // add leaves the README alone; rendering the recorded plugins again lists billing in it
+  const sameVersion = await runCli(['upgrade'], [], targetDir)
+  assert.strictEqual(sameVersion.code, 0, sameVersion.errorOutput)
+  assert.strictEqual(sameVersion.output, `Upgrading from fastify-new ${version} to ${version}\nupdated README.md\n`)
+  assert.match(readFile('README.md'), /^### billing$/m)
+
+  // Pretend the project came from an older generator: the recorded base differs from the current render
+  const current = readManifest()
+  const socketComment = '    // A socket path (or Windows named pipe) replaces host and port'
+  current.files['server.ts'] = current.files['server.ts'].replace(socketComment, '    // Listen')
+  writeFile('server.ts', `// Started by the process manager\n${current.files['server.ts']}`)
+  current.files['config.ts'] = current.files['config.ts'].replace("import envSchema from 'env-schema'", "import envSchema from 'env-schema' // old")
+  writeFile('config.ts', readFile('config.ts').replace("import envSchema from 'env-schema'", "import envSchema from 'env-schema' // mine"))
+  delete current.files['.env.example']
+  fs.rmSync(path.join(targetDir, '.env.example'))
+  delete current.files['.gitignore']
+  writeFile('.gitignore', 'node_modules\n')
+  fs.rmSync(path.join(targetDir, 'test', 'routes', 'root.test.ts'))
+  const env = readFile('.env')
+  fs.writeFileSync(manifestPath, JSON.stringify(current))
+
+  const upgrade = await runCli(['upgrade'], [], targetDir)
+  assert.strictEqual(upgrade.code, 1)
+  assert.match(upgrade.output, /^created \.env\.example$/m)
+  assert.match(upgrade.output, /^updated server\.ts$/m)
+  assert.match(upgrade.output, /^conflict config\.ts$/m)
+  assert.match(upgrade.output, /^conflict \.gitignore$/m)
+  assert.match(upgrade.errorOutput, /2 file\(s\) have conflicts/)
+  assert.strictEqual(readFile('server.ts'), `// Started by the process manager\n${readManifest().files['server.ts']}`)
+  assert.match(readFile('config.ts'), /^<<<<<<< yours\nimport envSchema from 'env-schema' \/\/ mine\n=======\nimport envSchema from 'env-schema'\n>>>>>>> fastify-new$/m)
+  assert.match(readFile('.gitignore'), /^<<<<<<< yours\nnode_modules\n=======\n/)
+  assert.strictEqual(fs.existsSync(path.join(targetDir, 'test', 'routes', 'root.test.ts')), false, 'A deleted file stays deleted')
+  assert.strictEqual(readFile('.env'), env)
+
+  // The manifest now records the new render, so the merged files are up to date
+  const again = await runCli(['upgrade', '--dry-run'], [], targetDir)
+  assert.strictEqual(again.code, 0, again.errorOutput)
+  assert.match(again.output, /Already up to date\./)
+  removeDir(targetDir)
+
+  const withoutManifest = await runCli(['upgrade'])
+  assert.strictEqual(withoutManifest.code, 1)
+  assert.match(withoutManifest.errorOutput, /No fastify-new\.json found in /)
+})
@@ -1,13 +1,34 @@
 #!/usr/bin/env node
 
+import path from 'node:path'
 import readline from 'node:readline/promises'
 import { stdin, stdout, exit } from 'node:process'
 import { colorize } from './src/utils/colors'
 import { validateNewProjectTarget, fail } from './src/utils/validation'
 import { askChoice } from './src/utils/io'
-import { runSetupFlow } from './src/prompts/setup'
-import { runPluginScaffoldWizard, printPluginScaffoldSummary } from './src/prompts/plugin-wizard'
-import { generateProject } from './src/generator/project-generator'
+import { parseArgs, type FlagSpec } from './src/utils/args'
+import type { DecoratorTarget, HookEvent } from './src/types'
+import { loadAnswersFile } from './src/utils/config-file'
+import { categories, findOptionByName, optionFlagName, printSummary, resolveOptionsFromAnswers, runSetupFlow, toAnswers } from './src/prompts/setup'
+import {
+  decoratorTargets,
+  hookEvents,
+  isValidRouteParam,
+  parseResourceFields,
+  parseRouteMethods,
+  printPluginScaffoldSummary,
+  runPluginScaffoldWizard
+} from './src/prompts/plugin-wizard'
+import { printFilePreview } from './src/prompts/file-preview'
+import { builtinPresets, loadPresetsFile, mergePresets } from './src/prompts/presets'
+import { createProject, type CreateProjectOptions, type GeneratedFile } from './src/index'
+import { addKinds, addToProject, upgradeProject, type AddKind } from './src/generator/project-updater'
+import { loadTemplateOverrides } from './src/generator/templates'
+
+const controlFlags = new Set(['yes', 'config', 'dry-run', 'show-content', 'templates', 'preset', 'presets'])
+/** Flags that keep the prompts: they change what is offered or how files render, not the answers. */
+const promptFlags = new Set(['templates', 'presets'])
+const flagSpec = buildFlagSpec()
 
 async function main(): Promise<void> {
   const args = process.argv.slice(2)
@@ -20,50 +41,302 @@ async function main(): Promise<void> {
     fail('Invalid command. Use: fastify-new <new-directory>')
   }
 
-  const targetDir = args[0]
-  const rest = args.slice(1)
+  if (args[0] === 'add') {
+    runAdd(args.slice(1))
+    return
+  }
 
-  if (!targetDir) {
-    fail('Missing target directory. Usage: fastify-new <new-directory>')
+  if (args[0] === 'upgrade') {
+    runUpgrade(args.slice(1))
+    return
   }
 
-  const invalidArg = rest.find((arg) => arg.startsWith('-'))
-  if (invalidArg) {
-    fail(`Option flags are disabled in MVP setup flow: ${invalidArg}`)
+  const { positionals, flags } = parseArgs(args, flagSpec)
+  const targetDir = positionals[0]
+
+  if (!targetDir) {
+    fail('Missing target directory. Usage: fastify-new <new-directory>')
   }
 
-  const unexpectedArg = rest.find((arg) => !arg.startsWith('-'))
+  const unexpectedArg = positionals[1]
   if (unexpectedArg) {
     fail(`Unexpected argument: ${unexpectedArg}. Usage: fastify-new <new-directory>`)
   }
 
+  const configPath = flags.get('config')
+  if (configPath === true) {
+    fail('Missing value for --config')
+  }
+  const templatesFlag = flags.get('templates')
+  if (templatesFlag === true) {
+    fail('Missing value for --templates')
+  }
+  // Read templates before prompting so a bad directory fails fast.
+  const flagTemplates = typeof templatesFlag === 'string' ? loadTemplateOverrides(path.resolve(templatesFlag)) : undefined
+  const presetsPath = flags.get('presets')
+  if (presetsPath === true) {
+    fail('Missing value for --presets')
+  }
+  const presetKey = flags.get('preset')
+  if (presetKey === true) {
+    fail('Missing value for --preset')
+  }
+  const presets = mergePresets(presetsPath ? loadPresetsFile(presetsPath) : [])
+
+  if (flags.has('show-content') && !flags.has('dry-run')) {
+    fail('--show-content only applies with --dry-run')
+  }
+
   validateNewProjectTarget(targetDir)
 
+  // Any other flag switches to non-interactive mode: unspecified options take their defaults.
+  if ([...flags.keys()].some((name) => !promptFlags.has(name))) {
+    const preset = presetKey ? presets.find((candidate) => candidate.key === presetKey) : undefined
+    if (presetKey && !preset) {
+      fail(`Unknown preset: ${presetKey}. Expected one of: ${presets.map((candidate) => candidate.key).join(', ')}.`)
+    }
+    // The preset comes first, so the config file and flags override its options.
+    const answers: Record<string, unknown> = { ...preset?.options, ...(configPath ? loadAnswersFile(configPath) : {}) }
+    const plugins = preset?.plugins ?? []
+    // A `templates` entry in the config file is a directory relative to that file; --templates wins over it.
+    let templates = flagTemplates
+    if ('templates' in answers) {
+      if (typeof answers.templates !== 'string') {
+        fail('The "templates" config entry must be a directory path')
+      }
+      templates ??= loadTemplateOverrides(path.resolve(path.dirname(path.resolve(configPath as string)), answers.templates))
+      delete answers.templates
+    }
+    for (const [name, value] of flags) {
+      if (!controlFlags.has(name)) {
+        answers[name] = value
+      }
+    }
+
+    printSummary(resolveOptionsFromAnswers(answers))
+    printPluginScaffoldSummary(plugins)
+    if (flags.has('dry-run')) {
+      const files = await createProject({ targetDir, options: answers, plugins, templates, dryRun: true })
+      printFilePreview(targetDir, files, flags.has('show-content'))
+      stdout.write(`\n${colorize('Dry run. No files were written.', 'yellow')}\n`)
+      return
+    }
+
+    await createProjectUntilInterrupted({ targetDir, options: answers, plugins, templates })
+    stdout.write(`\n${colorize('Project created in', 'green')} ${colorize(targetDir, 'bold')}\n`)
+    return
+  }
+
   const rl = readline.createInterface({ input: stdin, output: stdout })
   try {
-    const resolvedOptions = await runSetupFlow(rl)
-    const pluginScaffolds = await runPluginScaffoldWizard(rl)
+    const setup = await runSetupFlow(rl, presets)
+    const pluginScaffolds = await runPluginScaffoldWizard(rl, setup.pluginScaffolds, setup.resolvedOptions.auth !== 'none')
     printPluginScaffoldSummary(pluginScaffolds)
-    const shouldRun = await askChoice(rl, 'Setup complete. Continue?', ['Generate', 'Cancel'])
+    const project: CreateProjectOptions = {
+      targetDir,
+      options: toAnswers(setup.resolvedOptions),
+      plugins: pluginScaffolds,
+      templates: flagTemplates
+    }
+    const files = await createProject({ ...project, dryRun: true })
 
-    if (shouldRun === 'Cancel') {
-      stdout.write(`\n${colorize('Cancelled. No files were written.', 'yellow')}\n`)
-      return
+    while (true) {
+      const shouldRun = await askChoice(rl, 'Setup complete. Continue?', ['Generate', 'Cancel', 'Preview files'])
+
+      if (shouldRun === 'Cancel') {
+        stdout.write(`\n${colorize('Cancelled. No files were written.', 'yellow')}\n`)
+        return
+      }
+
+      if (shouldRun === 'Generate') {
+        break
+      }
+
+      stdout.write('\n')
+      printFilePreview(targetDir, files, false)
+      const showContent = await askChoice(rl, 'Show file contents?', ['No', 'Yes'])
+      if (showContent === 'Yes') {
+        printFilePreview(targetDir, files, true)
+      }
     }
 
-    generateProject(targetDir, resolvedOptions, pluginScaffolds)
+    // Release the terminal so Ctrl+C reaches the generator as SIGINT and rolls back the write.
+    rl.close()
+    await createProjectUntilInterrupted(project)
     stdout.write(`\n${colorize('Project created in', 'green')} ${colorize(targetDir, 'bold')}\n`)
   } finally {
     rl.close()
   }
 }
 
+/**
+ * Creates the project, aborting on Ctrl+C so the partial write is rolled back.
+ */
+async function createProjectUntilInterrupted(project: CreateProjectOptions): Promise<GeneratedFile[]> {
+  const controller = new AbortController()
+  const onInterrupt = (): void => controller.abort()
+  process.once('SIGINT', onInterrupt)
+  try {
+    return await createProject({ ...project, signal: controller.signal })
+  } finally {
+    process.removeListener('SIGINT', onInterrupt)
+  }
+}
+
+function runAdd(args: string[]): void {
+  const usage = 'Usage: fastify-new add <plugin|route|hook|decorator|resource> <plugin-name> [name] ' +
+    '[--methods GET,POST] [--param id] [--protected] [--event onRequest] [--target instance] [--fields title:string,done:boolean] [--templates <dir>]'
+  const { positionals, flags } = parseArgs(args, {
+    booleanFlags: new Set(['protected']),
+    valueFlags: new Set(['methods', 'param', 'event', 'target', 'fields', 'templates'])
+  })
+  const [kind, pluginName, itemName, unexpectedArg] = positionals
+
+  if (!addKinds.includes(kind as AddKind)) {
+    fail(`Unknown add target: ${kind ?? '(none)'}. ${usage}`)
+  }
+  if (!pluginName) {
+    fail(`Missing plugin name. ${usage}`)
+  }
+  const named = kind === 'route' || kind === 'hook' || kind === 'resource'
+  if (named && !itemName) {
+    fail(`Missing ${kind} name. ${usage}`)
+  }
+  const extraArg = named ? unexpectedArg : itemName
+  if (extraArg) {
+    fail(`Unexpected argument: ${extraArg}. ${usage}`)
+  }
+  if (kind !== 'route' && (flags.has('methods') || flags.has('param') || flags.has('protected'))) {
+    fail(`--methods, --param and --protected only apply to routes. ${usage}`)
+  }
+  if (kind !== 'hook' && flags.has('event')) {
+    fail(`--event only applies to hooks. ${usage}`)
+  }
+  if (kind !== 'decorator' && flags.has('target')) {
+    fail(`--target only applies to decorators. ${usage}`)
+  }
+  if (kind !== 'resource' && flags.has('fields')) {
+    fail(`--fields only applies to resources. ${usage}`)
+  }
+  if (kind === 'resource' && typeof flags.get('fields') !== 'string') {
+    fail(`Missing --fields for the resource. ${usage}`)
+  }
+
+  const methods = flags.get('methods')
+  const param = flags.get('param')
+  const event = flags.get('event')
+  const target = flags.get('target')
+  const fields = flags.get('fields')
+  const templatesDir = flags.get('templates')
+  if (typeof param === 'string' && !isValidRouteParam(param)) {
+    fail('Invalid --param. Use letters, numbers, and underscores only; must not start with a number.')
+  }
+  if (typeof event === 'string' && !hookEvents.includes(event as HookEvent)) {
+    fail(`Invalid --event: ${event}. Expected one of: ${hookEvents.join(', ')}.`)
+  }
+  if (typeof target === 'string' && !decoratorTargets.includes(target as DecoratorTarget)) {
+    fail(`Invalid --target: ${target}. Expected one of: ${decoratorTargets.join(', ')}.`)
+  }
+
+  const result = addToProject('.', {
+    kind: kind as AddKind,
+    pluginName,
+    itemName,
+    methods: typeof methods === 'string' ? parseRouteMethods(methods) : undefined,
+    param: typeof param === 'string' ? param : undefined,
+    protected: flags.has('protected'),
+    event: typeof event === 'string' ? event as HookEvent : undefined,
+    target: typeof target === 'string' ? target as DecoratorTarget : undefined,
+    fields: typeof fields === 'string' ? parseResourceFields(fields) : undefined,
+    templates: typeof templatesDir === 'string' ? loadTemplateOverrides(templatesDir) : undefined
+  })
+  for (const relativePath of result.created) {
+    stdout.write(`${colorize('created', 'green')} ${relativePath}\n`)
+  }
+  for (const relativePath of result.updated) {
+    stdout.write(`${colorize('updated', 'cyan')} ${relativePath}\n`)
+  }
+}
+
+function runUpgrade(args: string[]): void {
+  const usage = 'Usage: fastify-new upgrade [--templates <dir>] [--dry-run]'
+  const { positionals, flags } = parseArgs(args, {
+    booleanFlags: new Set(['dry-run']),
+    valueFlags: new Set(['templates'])
+  })
+  if (positionals.length > 0) {
+    fail(`Unexpected argument: ${positionals[0]}. ${usage}`)
+  }
+  const templatesDir = flags.get('templates')
+  if (templatesDir === true) {
+    fail(`Missing value for --templates. ${usage}`)
+  }
+
+  const result = upgradeProject('.', {
+    templates: typeof templatesDir === 'string' ? loadTemplateOverrides(templatesDir) : undefined,
+    dryRun: flags.has('dry-run')
+  })
+  stdout.write(`Upgrading from fastify-new ${result.fromVersion} to ${result.toVersion}\n`)
+  for (const relativePath of result.created) {
+    stdout.write(`${colorize('created', 'green')} ${relativePath}\n`)
+  }
+  for (const relativePath of result.updated) {
+    stdout.write(`${colorize('updated', 'cyan')} ${relativePath}\n`)
+  }
+  for (const relativePath of result.conflicted) {
+    stdout.write(`${colorize('conflict', 'red')} ${relativePath}\n`)
+  }
+  if (result.created.length + result.updated.length + result.conflicted.length === 0) {
+    stdout.write('Already up to date.\n')
+  }
+  if (flags.has('dry-run')) {
+    stdout.write(`\n${colorize('Dry run. No files were written.', 'yellow')}\n`)
+  } else if (result.conflicted.length > 0) {
+    fail(`${result.conflicted.length} file(s) have conflicts. Resolve the sections between <<<<<<< yours and >>>>>>> fastify-new, then commit.`)
+  }
+}
+
+function buildFlagSpec(): FlagSpec {
+  const booleanFlags = new Set(['yes', 'dry-run', 'show-content'])
+  const valueFlags = new Set(['config', 'templates', 'preset', 'presets'])
+  for (const category of categories) {
+    for (const option of category.options) {
+      if (option.type === 'boolean' || option.type === 'tri-boolean') {
+        booleanFlags.add(optionFlagName(option))
+      } else {
+        valueFlags.add(optionFlagName(option))
+      }
+    }
+  }
+  return { booleanFlags, valueFlags }
+}
+
 function printHelp(): void {
   stdout.write(`${colorize('Usage:', 'cyan')}\n`)
-  stdout.write(`  ${colorize('fastify-new <new-directory>', 'bold')}\n`)
+  stdout.write(`  ${colorize('fastify-new <new-directory> [options]', 'bold')}\n`)
+  stdout.write(`  ${colorize('fastify-new add <plugin|route|hook|decorator|resource> <plugin-name> [name] [--methods GET,POST] [--param id] [--protected] [--event onRequest] [--target instance] [--fields title:string] [--templates <dir>]', 'bold')}\n`)
+  stdout.write(`  ${colorize('fastify-new upgrade [--templates <dir>] [--dry-run]', 'bold')}  re-render from fastify-new.json and merge into your files\n`)
+  stdout.write('\n')
+  stdout.write(`${colorize('Options:', 'cyan')}\n`)
+  stdout.write(`  ${colorize('-y, --yes', 'bold')}  use defaults for every option not given (no prompts)\n`)
+  stdout.write(`  ${colorize('--config <file>', 'bold')}  read setup answers from a JSON or YAML file\n`)
+  stdout.write(`  ${colorize('--preset <name>', 'bold')}  start from a preset: ${builtinPresets.map((preset) => preset.key).join(', ')} or one from --presets\n`)
+  stdout.write(`  ${colorize('--presets <file>', 'bold')}  add team presets from a JSON file (also offered by the prompts)\n`)
+  stdout.write(`  ${colorize('--templates <dir>', 'bold')}  override generated files with templates from a directory\n`)
+  stdout.write(`  ${colorize('--dry-run', 'bold')}  print the files that would be created, with sizes, without writing them\n`)
+  stdout.write(`  ${colorize('--show-content', 'bold')}  with --dry-run, also print every file's content\n`)
+  for (const category of categories) {
+    for (const option of category.options) {
+      const valueHint = option.type === 'choice'
+        ? ` <${option.choices!.join('|')}>`
+        : option.type === 'boolean' || option.type === 'tri-boolean' ? '' : ` <${option.type}>`
+      const gate = option.when ? ` (with --${optionFlagName(findOptionByName(option.when)!)})` : ''
+      stdout.write(`  ${colorize(`--${optionFlagName(option)}${valueHint}`, 'bold')}  ${option.label}${gate}\n`)
+    }
+  }
   stdout.write('\n')
-  stdout.write(`${colorize('MVP rules:', 'cyan')}\n`)
-  stdout.write(`- ${colorize('setup option flags are disabled', 'gray')}\n`)
+  stdout.write(`${colorize('Rules:', 'cyan')}\n`)
+  stdout.write(`- ${colorize('passing any option other than --presets or --templates skips the prompts', 'gray')}\n`)
   stdout.write(`- ${colorize('target must be a new directory', 'gray')}\n`)
 }
 
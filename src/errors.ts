@@ -0,0 +1,55 @@
+/**
+ * Base class for errors raised while building, writing, adding to or upgrading a project. The CLI prints the message
+ * and exits; library callers can tell generation failures apart from unexpected ones.
+ */
+export class GenerationError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = new.target.name
+  }
+}
+
+/** The target directory cannot receive a new project. */
+export class TargetDirectoryError extends GenerationError {
+  constructor(message: string, readonly targetDir: string) {
+    super(message)
+  }
+}
+
+/** Two generated files share the same relative path. */
+export class DuplicateFileError extends GenerationError {
+  constructor(readonly relativePath: string) {
+    super(`Duplicate generated file detected: ${relativePath}`)
+  }
+}
+
+/** Writing the project failed; nothing was left behind in the target directory. */
+export class WriteError extends GenerationError {}
+
+/** Generation was aborted (the CLI aborts on SIGINT); nothing was left behind in the target directory. */
+export class GenerationInterruptedError extends GenerationError {
+  constructor() {
+    super('Generation interrupted. No files were written.')
+  }
+}
+
+/** A setup option is unknown or has an invalid value. */
+export class InvalidOptionError extends GenerationError {}
+
+/** A plugin given to `createProject` cannot be scaffolded. */
+export class InvalidPluginError extends GenerationError {}
+
+/** A template override is unknown or references an unknown variable. */
+export class TemplateError extends GenerationError {}
+
+/** A presets file is missing, is not valid JSON or holds an invalid preset. */
+export class PresetsFileError extends GenerationError {}
+
+/** The directory is not a generated project, or has no manifest to upgrade from. */
+export class ProjectNotFoundError extends GenerationError {}
+
+/** `fastify-new.json` is not valid JSON or lacks a field. */
+export class ManifestError extends GenerationError {}
+
+/** `add` would overwrite an existing file, or cannot merge its lines into one. */
+export class MergeConflictError extends GenerationError {}
@@ -0,0 +1,209 @@
+import type { ResolvedOptions } from '../types'
+import type { ImportSpecifier, SecretSetting } from './ecosystem-plugins'
+
+export type AuthStrategy = 'jwt' | 'api-key' | 'basic'
+
+interface AuthStrategyDefinition {
+  dependencies: Record<string, string>
+  secrets: SecretSetting[]
+  /** How a client proves itself, for the doc comment. */
+  description: string
+  /** Statements of `authenticate`; they throw `unauthorized(...)` to reject. */
+  checkLines: string[]
+  /** Test headers, as TypeScript expressions; `app` and `config` are in scope. */
+  validHeaders: string
+  invalidHeaders: string
+  /** Whether the test headers read `config`. */
+  testUsesConfig: boolean
+}
+
+const strategies: Record<AuthStrategy, AuthStrategyDefinition> = {
+  jwt: {
+    dependencies: { '@fastify/jwt': '^10.0.0' },
+    secrets: [{ key: 'jwtSecret', env: 'JWT_SECRET' }],
+    description: 'a bearer token signed with JWT_SECRET (`fastify.jwt.sign(payload)`)',
+    checkLines: [
+      '    // jwtVerify rejects with a 401 error of its own',
+      '    await request.jwtVerify()'
+    ],
+    validHeaders: "{ authorization: `Bearer ${app.jwt.sign({ sub: 'test' })}` }",
+    invalidHeaders: "{ authorization: 'Bearer not-a-token' }",
+    testUsesConfig: false
+  },
+  'api-key': {
+    dependencies: {},
+    secrets: [{ key: 'apiKey', env: 'API_KEY' }],
+    description: 'the API_KEY value in an X-API-Key header',
+    checkLines: [
+      "    const apiKey = request.headers['x-api-key']",
+      "    if (typeof apiKey !== 'string' || !safeEqual(apiKey, config.apiKey)) {",
+      "      throw unauthorized('Missing or invalid API key')",
+      '    }'
+    ],
+    validHeaders: "{ 'x-api-key': config.apiKey }",
+    invalidHeaders: "{ 'x-api-key': 'wrong' }",
+    testUsesConfig: true
+  },
+  basic: {
+    dependencies: {},
+    secrets: [{ key: 'basicAuthUsername', env: 'BASIC_AUTH_USERNAME' }, { key: 'basicAuthPassword', env: 'BASIC_AUTH_PASSWORD' }],
+    description: 'HTTP Basic credentials matching BASIC_AUTH_USERNAME and BASIC_AUTH_PASSWORD',
+    checkLines: [
+      "    const [scheme, encoded = ''] = (request.headers.authorization ?? '').split(' ')",
+      "    const [username = '', ...passwordParts] = Buffer.from(encoded, 'base64').toString().split(':')",
+      '    // Both parts are always compared, so the timing does not tell which one was wrong',
+      '    const usernameMatches = safeEqual(username, config.basicAuthUsername)',
+      "    const passwordMatches = safeEqual(passwordParts.join(':'), config.basicAuthPassword)",
+      "    if (scheme.toLowerCase() !== 'basic' || !usernameMatches || !passwordMatches) {",
+      "      reply.header('www-authenticate', 'Basic realm=\"api\", charset=\"UTF-8\"')",
+      "      throw unauthorized('Missing or invalid credentials')",
+      '    }'
+    ],
+    validHeaders: "{ authorization: `Basic ${Buffer.from(`${config.basicAuthUsername}:${config.basicAuthPassword}`).toString('base64')}` }",
+    invalidHeaders: "{ authorization: `Basic ${Buffer.from('wrong:wrong').toString('base64')}` }",
+    testUsesConfig: true
+  }
+}
+
+export function hasAuth(resolvedOptions: ResolvedOptions): boolean {
+  return resolvedOptions.auth !== undefined && resolvedOptions.auth !== 'none'
+}
+
+export function authSecretSettings(resolvedOptions: ResolvedOptions): SecretSetting[] {
+  return hasAuth(resolvedOptions) ? strategies[resolvedOptions.auth as AuthStrategy].secrets : []
+}
+
+export function authDependencies(resolvedOptions: ResolvedOptions): Record<string, string> {
+  return hasAuth(resolvedOptions) ? strategies[resolvedOptions.auth as AuthStrategy].dependencies : {}
+}
+
+/**
+ * `plugins/auth.ts`, decorating `fastify.authenticate`, and its test against a throwaway protected route.
+ */
+export function buildAuthFiles(resolvedOptions: ResolvedOptions, specifier: ImportSpecifier): Array<{ relativePath: string, content: string }> {
+  if (!hasAuth(resolvedOptions)) {
+    return []
+  }
+  const strategy = resolvedOptions.auth as AuthStrategy
+  return [
+    { relativePath: 'plugins/auth.ts', content: buildAuthPlugin(resolvedOptions, strategy, specifier) },
+    { relativePath: 'test/plugins/auth.test.ts', content: buildAuthTest(strategy, specifier) }
+  ]
+}
+
+/**
+ * Import lines and the `headers` expression a scaffolded plugin test needs to call its protected routes.
+ */
+export function authTestHeaders(resolvedOptions: ResolvedOptions, specifier: ImportSpecifier): { imports: string[], headers: string } {
+  const definition = strategies[resolvedOptions.auth as AuthStrategy]
+  return {
+    imports: definition.testUsesConfig ? [`import { config } from '${specifier('../../config')}'`] : [],
+    headers: definition.validHeaders
+  }
+}
+
+function buildAuthPlugin(resolvedOptions: ResolvedOptions, strategy: AuthStrategy, specifier: ImportSpecifier): string {
+  const definition = strategies[strategy]
+  const lines: string[] = []
+  if (strategy !== 'jwt') {
+    lines.push("import { createHash, timingSafeEqual } from 'node:crypto'")
+  }
+  lines.push(
+    "import fp from 'fastify-plugin'",
+    "import { FastifyReply, FastifyRequest } from 'fastify'"
+  )
+  if (strategy === 'jwt') {
+    lines.push("import jwt from '@fastify/jwt'")
+  }
+  lines.push(
+    `import { config } from '${specifier('../config')}'`,
+    '',
+    "declare module 'fastify' {",
+    '  interface FastifyInstance {',
+    '    authenticate(request: FastifyRequest, reply: FastifyReply): Promise<void>',
+    '  }',
+    '}',
+    ''
+  )
+
+  if (strategy !== 'jwt') {
+    lines.push(
+      '/**',
+      ' * Compares digests of equal length, so neither the content nor the length of the secret leaks through timing.',
+      ' */',
+      'function safeEqual (actual: string, expected: string): boolean {',
+      "  return timingSafeEqual(createHash('sha256').update(actual).digest(), createHash('sha256').update(expected).digest())",
+      '}',
+      '',
+      'function unauthorized (message: string): Error {',
+      '  return Object.assign(new Error(message), { statusCode: 401 })',
+      '}',
+      ''
+    )
+  }
+
+  lines.push(
+    '/**',
+    ` * Decorates \`fastify.authenticate\`, which answers 401 unless the request carries ${definition.description}.`,
+    ' * Protect a route with `onRequest: [fastify.authenticate]`.',
+    ' */',
+    'export default fp(async function (fastify) {'
+  )
+  if (strategy === 'jwt') {
+    lines.push(
+      '  await fastify.register(jwt, {',
+      '    secret: config.jwtSecret,',
+      // JWT_EXPIRES_IN only exists in config.ts when @fastify/jwt was selected too
+      resolvedOptions.jwtExpiresIn !== undefined
+        ? '    sign: { expiresIn: config.jwtExpiresIn }'
+        : "    sign: { expiresIn: '1h' }",
+      '  })',
+      ''
+    )
+  }
+  lines.push(
+    "  fastify.decorate('authenticate', async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {",
+    ...definition.checkLines,
+    '  })',
+    "}, { name: 'auth' })",
+    ''
+  )
+  return lines.join('\n')
+}
+
+function buildAuthTest(strategy: AuthStrategy, specifier: ImportSpecifier): string {
+  const definition = strategies[strategy]
+  const lines = [
+    "import { test } from 'node:test'",
+    "import assert from 'node:assert'",
+    "import Fastify from 'fastify'",
+    `import auth from '${specifier('../../plugins/auth')}'`
+  ]
+  if (definition.testUsesConfig) {
+    lines.push(`import { config } from '${specifier('../../config')}'`)
+  }
+  lines.push(
+    '',
+    "test('authenticate rejects missing or wrong credentials and accepts valid ones', async (t) => {",
+    '  const app = Fastify()',
+    '  t.after(() => app.close())',
+    '  await app.register(auth)',
+    "  app.get('/protected', { onRequest: [app.authenticate] }, async () => ({ ok: true }))",
+    '  await app.ready()',
+    '',
+    "  const missing = await app.inject({ method: 'GET', url: '/protected' })",
+    '  assert.strictEqual(missing.statusCode, 401)'
+  )
+  if (strategy === 'basic') {
+    lines.push("  assert.match(String(missing.headers['www-authenticate']), /^Basic /)")
+  }
+  lines.push(
+    `  const wrong = await app.inject({ method: 'GET', url: '/protected', headers: ${definition.invalidHeaders} })`,
+    '  assert.strictEqual(wrong.statusCode, 401)',
+    `  const authorized = await app.inject({ method: 'GET', url: '/protected', headers: ${definition.validHeaders} })`,
+    '  assert.deepStrictEqual(authorized.json(), { ok: true })',
+    '})',
+    ''
+  )
+  return lines.join('\n')
+}
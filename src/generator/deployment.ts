@@ -0,0 +1,214 @@
+import type { GeneratedFile, ResolvedOptions } from '../types'
+import { defaultDatabaseUrl, hasDatabase } from './database'
+
+type ServiceDatabase = 'postgres' | 'mysql' | 'mongodb'
+
+interface DatabaseService {
+  image: string
+  /** Where the image keeps its data, kept in the `db-data` volume. */
+  dataDir: string
+  environment(projectName: string): Record<string, string>
+  healthcheck: string[]
+}
+
+const databaseServices: Record<ServiceDatabase, DatabaseService> = {
+  postgres: {
+    image: 'postgres:17',
+    dataDir: '/var/lib/postgresql/data',
+    environment: (projectName) => ({ POSTGRES_PASSWORD: 'postgres', POSTGRES_DB: projectName }),
+    healthcheck: ['CMD-SHELL', 'pg_isready -U postgres']
+  },
+  mysql: {
+    image: 'mysql:8.4',
+    dataDir: '/var/lib/mysql',
+    environment: (projectName) => ({ MYSQL_ROOT_PASSWORD: 'root', MYSQL_DATABASE: projectName }),
+    healthcheck: ['CMD', 'mysqladmin', 'ping', '-h', '127.0.0.1', '-uroot', '-proot']
+  },
+  mongodb: {
+    image: 'mongo:8',
+    dataDir: '/data/db',
+    environment: () => ({}),
+    healthcheck: ['CMD', 'mongosh', '--quiet', '--eval', "db.adminCommand('ping')"]
+  }
+}
+
+export function hasDocker(resolvedOptions: ResolvedOptions): boolean {
+  return resolvedOptions.docker === true
+}
+
+export function hasDockerCompose(resolvedOptions: ResolvedOptions): boolean {
+  return hasDocker(resolvedOptions) && resolvedOptions.dockerCompose === true
+}
+
+/**
+ * The Dockerfile and `.dockerignore`, plus `docker-compose.yml` running the app next to its database.
+ */
+export function buildDeploymentFiles(resolvedOptions: ResolvedOptions, projectName: string): GeneratedFile[] {
+  if (!hasDocker(resolvedOptions)) {
+    return []
+  }
+  return [
+    { relativePath: 'Dockerfile', content: buildDockerfile(resolvedOptions, projectName) },
+    { relativePath: '.dockerignore', content: buildDockerignore(resolvedOptions) },
+    ...(hasDockerCompose(resolvedOptions)
+      ? [{ relativePath: 'docker-compose.yml', content: buildDockerCompose(resolvedOptions, projectName) }]
+      : [])
+  ]
+}
+
+/**
+ * Seconds the container gets between the stop signal and SIGKILL: the close grace delay, rounded up, plus one.
+ */
+function stopGracePeriod(resolvedOptions: ResolvedOptions): number {
+  return Math.ceil(Number(resolvedOptions.closeGraceDelay ?? 500) / 1000) + 1
+}
+
+/** A socket path replaces the TCP listener, so there is no port to expose or probe. */
+function listensOnPort(resolvedOptions: ResolvedOptions): boolean {
+  return resolvedOptions.socket === undefined || resolvedOptions.socket === ''
+}
+
+/**
+ * Two stages: the first installs every dependency and compiles with `tsc`, the second keeps the
+ * compiled output and the production dependencies and runs as the unprivileged `node` user.
+ */
+function buildDockerfile(resolvedOptions: ResolvedOptions, projectName: string): string {
+  const port = Number(resolvedOptions.port ?? 3000)
+  const closeGraceDelay = Number(resolvedOptions.closeGraceDelay ?? 500)
+  const sqliteUrl = resolvedOptions.database === 'sqlite' ? `data/${defaultDatabaseUrl(resolvedOptions, projectName)}` : undefined
+  const lines = [
+    `# docker build -t ${projectName} .`,
+    `# docker run --env-file .env${sqliteUrl ? ` -e DATABASE_URL=${sqliteUrl}` : ''}${listensOnPort(resolvedOptions) ? ` -p ${port}:${port}` : ''} --stop-timeout ${stopGracePeriod(resolvedOptions)} ${projectName}`,
+    '',
+    'FROM node:22-slim AS build',
+    'WORKDIR /app',
+    'COPY package*.json ./',
+    'RUN npm install --no-audit --no-fund',
+    'COPY . .',
+    '# tsc compiles to dist/',
+    'RUN npm run build',
+    'RUN npm prune --omit=dev',
+    '',
+    'FROM node:22-slim',
+    'ENV NODE_ENV=production',
+    'WORKDIR /app',
+    'COPY --from=build /app/package.json ./',
+    'COPY --from=build /app/node_modules ./node_modules',
+    'COPY --from=build /app/dist ./dist'
+  ]
+  if (resolvedOptions.staticFiles === true) {
+    lines.push('COPY --from=build /app/public ./public')
+  }
+  if (sqliteUrl) {
+    lines.push(
+      '# The SQLite file lives in data/, the only directory the node user can write to.',
+      '# .env points DATABASE_URL at the working directory, so docker run overrides it with -e.',
+      'RUN mkdir data && chown node:node data',
+      `ENV DATABASE_URL=${sqliteUrl}`
+    )
+  }
+  if (listensOnPort(resolvedOptions)) {
+    if (resolvedOptions.host === undefined || resolvedOptions.host === '') {
+      lines.push('# Listen on every interface so the published port reaches the server', 'ENV HOST=0.0.0.0')
+    }
+    lines.push(`EXPOSE ${port}`)
+  }
+  lines.push('USER node')
+  if (listensOnPort(resolvedOptions) && resolvedOptions.healthChecks === true) {
+    lines.push(
+      `HEALTHCHECK CMD ["node", "-e", "fetch('http://127.0.0.1:' + (process.env.PORT ?? ${port}) + '/health/live').then((res) => process.exit(res.ok ? 0 : 1), () => process.exit(1))"]`
+    )
+  }
+  lines.push(
+    `# server.ts closes gracefully on SIGTERM within CLOSE_GRACE_DELAY (${closeGraceDelay} ms), so give`,
+    `# docker stop more time than that (--stop-timeout ${stopGracePeriod(resolvedOptions)}). node runs directly, not`,
+    '# through npm, so it receives the signal itself.',
+    'STOPSIGNAL SIGTERM',
+    // app.js only exports build(); server.js is the entry point that listens
+    'CMD ["node", "dist/server.js"]',
+    ''
+  )
+  return lines.join('\n')
+}
+
+function buildDockerignore(resolvedOptions: ResolvedOptions): string {
+  return [
+    'node_modules', 'dist', '.git', '.env', '*.log', '.DS_Store',
+    'Dockerfile', '.dockerignore', 'docker-compose.yml',
+    ...(resolvedOptions.database === 'sqlite' ? ['*.sqlite', 'data'] : []),
+    ''
+  ].join('\n')
+}
+
+/**
+ * The app service reads `.env` and overrides DATABASE_URL to reach the `db` service, which it waits for.
+ * SQLite has no service: its file is kept in a volume instead.
+ */
+function buildDockerCompose(resolvedOptions: ResolvedOptions, projectName: string): string {
+  const port = Number(resolvedOptions.port ?? 3000)
+  const service = hasDatabase(resolvedOptions) && resolvedOptions.database !== 'sqlite'
+    ? databaseServices[resolvedOptions.database as ServiceDatabase]
+    : undefined
+  const volumes: string[] = []
+
+  const lines = [
+    '# docker compose up --build',
+    'services:',
+    '  app:',
+    '    build: .',
+    '    env_file: .env'
+  ]
+  if (resolvedOptions.database === 'sqlite') {
+    lines.push(
+      '    environment:',
+      `      DATABASE_URL: ${yamlString(`data/${defaultDatabaseUrl(resolvedOptions, projectName)}`)}`,
+      '    volumes:',
+      '      - app-data:/app/data'
+    )
+    volumes.push('app-data')
+  } else if (service) {
+    lines.push(
+      '    environment:',
+      `      DATABASE_URL: ${yamlString(defaultDatabaseUrl(resolvedOptions, projectName).replace('localhost', 'db'))}`
+    )
+  }
+  if (listensOnPort(resolvedOptions)) {
+    lines.push('    ports:', `      - ${yamlString(`${port}:${port}`)}`)
+  }
+  lines.push(`    stop_grace_period: ${stopGracePeriod(resolvedOptions)}s`)
+
+  if (service) {
+    lines.push(
+      '    depends_on:',
+      '      db:',
+      '        condition: service_healthy',
+      '  db:',
+      `    image: ${service.image}`
+    )
+    const environment = Object.entries(service.environment(projectName))
+    if (environment.length > 0) {
+      lines.push('    environment:', ...environment.map(([name, value]) => `      ${name}: ${yamlString(value)}`))
+    }
+    lines.push(
+      '    volumes:',
+      `      - db-data:${service.dataDir}`,
+      '    healthcheck:',
+      `      test: [${service.healthcheck.map(yamlString).join(', ')}]`,
+      '      interval: 5s',
+      '      timeout: 5s',
+      '      retries: 10'
+    )
+    volumes.push('db-data')
+  }
+
+  if (volumes.length > 0) {
+    lines.push('', 'volumes:', ...volumes.map((volume) => `  ${volume}:`))
+  }
+  lines.push('')
+  return lines.join('\n')
+}
+
+/** A JSON string is a valid double-quoted YAML string. */
+function yamlString(value: string): string {
+  return JSON.stringify(value)
+}
@@ -0,0 +1,431 @@
+import type { ResolvedOptions } from '../types'
+import { toStringLiteral } from '../utils/source'
+import { authSecretSettings } from './auth'
+
+/** Turns an extensionless relative module path into an import specifier for the project's module system. */
+export type ImportSpecifier = (modulePath: string) => string
+
+/** A runtime secret the generated app reads from `.env`; a random value is generated into `.env` only. */
+export interface SecretSetting {
+  /** Key on the generated `config` object. */
+  key: string
+  env: string
+}
+
+export interface EcosystemPlugin {
+  /** The boolean setup option that adds the plugin. */
+  optionKey: string
+  /** Packages added to the generated `dependencies`. */
+  dependencies: Record<string, string>
+  /** Generated as `plugins/<fileName>.ts` with a smoke test at `test/plugins/<fileName>.test.ts`. */
+  fileName: string
+  secrets?: SecretSetting[]
+  /** Other files the plugin needs, relative to the project root. */
+  extraFiles?: Array<{ relativePath: string, content: string }>
+  buildPlugin(resolvedOptions: ResolvedOptions, specifier: ImportSpecifier, projectName: string): string
+  /** Body of the smoke test; `app` comes from the test helper. */
+  buildTestLines(resolvedOptions: ResolvedOptions): string[]
+  /** The smoke test imports the generated `config`, e.g. for the route prefix. */
+  testUsesConfig?: boolean
+}
+
+/** The root route, served under the prefix the app reads from config. */
+const rootUrl = "`${config.prefix ?? ''}/`"
+
+export const ecosystemPlugins: EcosystemPlugin[] = [
+  {
+    optionKey: 'cors',
+    dependencies: { '@fastify/cors': '^11.0.0' },
+    fileName: 'cors',
+    buildPlugin: (_resolvedOptions, specifier) => [
+      "import fp from 'fastify-plugin'",
+      "import cors from '@fastify/cors'",
+      `import { config } from '${specifier('../config')}'`,
+      '',
+      '/**',
+      ' * Adds CORS headers for the origins in CORS_ORIGINS, a comma separated list or `*` for any.',
+      ' *',
+      ' * @see https://github.com/fastify/fastify-cors',
+      ' */',
+      'export default fp(async function (fastify) {',
+      "  const origins = config.corsOrigins.split(',').map((origin) => origin.trim()).filter(Boolean)",
+      '  await fastify.register(cors, {',
+      "    origin: origins.length === 0 || origins.includes('*') ? '*' : origins",
+      '  })',
+      '})',
+      ''
+    ].join('\n'),
+    buildTestLines: (resolvedOptions) => {
+      const origins = corsOrigins(resolvedOptions)
+      const origin = origins[0] === '*' ? 'https://example.com' : origins[0]
+      return [
+        `  const response = await app.inject({ method: 'GET', url: ${rootUrl}, headers: { origin: '${origin}' } })`,
+        `  assert.strictEqual(response.headers['access-control-allow-origin'], '${origins[0] === '*' ? '*' : origin}')`
+      ]
+    },
+    testUsesConfig: true
+  },
+  {
+    optionKey: 'helmet',
+    dependencies: { '@fastify/helmet': '^13.0.0' },
+    fileName: 'helmet',
+    buildPlugin: () => buildRegisterPlugin('helmet', '@fastify/helmet', 'Sets security headers such as Content-Security-Policy on every response.', 'https://github.com/fastify/fastify-helmet', []),
+    buildTestLines: () => [
+      `  const response = await app.inject({ method: 'GET', url: ${rootUrl} })`,
+      "  assert.strictEqual(response.headers['x-content-type-options'], 'nosniff')",
+      "  assert.ok(response.headers['content-security-policy'])"
+    ],
+    testUsesConfig: true
+  },
+  {
+    optionKey: 'rateLimit',
+    dependencies: { '@fastify/rate-limit': '^11.0.0' },
+    fileName: 'rate-limit',
+    buildPlugin: (_resolvedOptions, specifier) => buildRegisterPlugin('rateLimit', '@fastify/rate-limit', 'Limits how many requests each client can make per time window; RATE_LIMIT_MAX and RATE_LIMIT_WINDOW set them.', 'https://github.com/fastify/fastify-rate-limit', [
+      'max: config.rateLimitMax',
+      'timeWindow: config.rateLimitWindow'
+    ], specifier),
+    buildTestLines: () => [
+      `  const response = await app.inject({ method: 'GET', url: ${rootUrl} })`,
+      "  assert.strictEqual(response.headers['x-ratelimit-limit'], String(config.rateLimitMax))"
+    ],
+    testUsesConfig: true
+  },
+  {
+    optionKey: 'cookie',
+    dependencies: { '@fastify/cookie': '^11.0.0' },
+    fileName: 'cookie',
+    buildPlugin: () => buildRegisterPlugin('cookie', '@fastify/cookie', 'Parses request cookies into `request.cookies` and adds `reply.setCookie`.', 'https://github.com/fastify/fastify-cookie', []),
+    buildTestLines: () => [
+      "  assert.ok(app.hasRequestDecorator('cookies'))",
+      "  assert.strictEqual(app.parseCookie('theme=dark').theme, 'dark')"
+    ]
+  },
+  {
+    optionKey: 'jwt',
+    dependencies: { '@fastify/jwt': '^10.0.0' },
+    fileName: 'jwt',
+    secrets: [{ key: 'jwtSecret', env: 'JWT_SECRET' }],
+    buildPlugin: (_resolvedOptions, specifier) => [
+      "import fp from 'fastify-plugin'",
+      "import jwt from '@fastify/jwt'",
+      `import { config } from '${specifier('../config')}'`,
+      '',
+      '/**',
+      ' * Signs and verifies JSON Web Tokens with `fastify.jwt` and `request.jwtVerify()`.',
+      ' * The secret is read from JWT_SECRET and the token lifetime from JWT_EXPIRES_IN.',
+      ' *',
+      ' * @see https://github.com/fastify/fastify-jwt',
+      ' */',
+      'export default fp(async function (fastify) {',
+      '  await fastify.register(jwt, {',
+      '    secret: config.jwtSecret,',
+      '    sign: { expiresIn: config.jwtExpiresIn }',
+      '  })',
+      '})',
+      ''
+    ].join('\n'),
+    buildTestLines: () => [
+      "  const token = app.jwt.sign({ sub: 'smoke-test' })",
+      "  assert.strictEqual(app.jwt.verify<{ sub: string }>(token).sub, 'smoke-test')"
+    ]
+  },
+  {
+    optionKey: 'multipart',
+    dependencies: { '@fastify/multipart': '^10.0.0' },
+    fileName: 'multipart',
+    buildPlugin: (_resolvedOptions, specifier) => buildRegisterPlugin('multipart', '@fastify/multipart', 'Parses multipart/form-data bodies; read uploads with `request.file()`. MULTIPART_FILE_SIZE caps each file.', 'https://github.com/fastify/fastify-multipart', [
+      'limits: { fileSize: config.multipartFileSize }'
+    ], specifier),
+    buildTestLines: () => [
+      "  assert.ok(app.hasContentTypeParser('multipart/form-data'))"
+    ]
+  },
+  {
+    optionKey: 'staticFiles',
+    dependencies: { '@fastify/static': '^10.0.0' },
+    fileName: 'static',
+    extraFiles: [{ relativePath: 'public/robots.txt', content: 'User-agent: *\nAllow: /\n' }],
+    buildPlugin: (_resolvedOptions, specifier) => [
+      "import path from 'node:path'",
+      "import fp from 'fastify-plugin'",
+      "import fastifyStatic from '@fastify/static'",
+      `import { config } from '${specifier('../config')}'`,
+      '',
+      '/**',
+      ' * Serves the files in public/ under STATIC_PREFIX. The directory is resolved from the',
+      ' * working directory, so it is found both with tsx and from the compiled dist/.',
+      ' *',
+      ' * @see https://github.com/fastify/fastify-static',
+      ' */',
+      'export default fp(async function (fastify) {',
+      '  // The prefix is a URL directory: a leading and a trailing slash',
+      "  const directory = config.staticPrefix.replace(/^\\/+|\\/+$/g, '')",
+      '  await fastify.register(fastifyStatic, {',
+      "    root: path.join(process.cwd(), 'public'),",
+      "    prefix: directory === '' ? '/' : `/${directory}/`",
+      '  })',
+      '})',
+      ''
+    ].join('\n'),
+    buildTestLines: () => [
+      "  const directory = config.staticPrefix.replace(/^\\/+|\\/+$/g, '')",
+      "  const response = await app.inject({ method: 'GET', url: `${directory === '' ? '' : `/${directory}`}/robots.txt` })",
+      '  assert.strictEqual(response.statusCode, 200)',
+      "  assert.match(response.body, /User-agent/)"
+    ],
+    testUsesConfig: true
+  },
+  {
+    optionKey: 'compress',
+    dependencies: { '@fastify/compress': '^9.0.0' },
+    fileName: 'compress',
+    buildPlugin: (_resolvedOptions, specifier) => buildRegisterPlugin('compress', '@fastify/compress', 'Compresses responses with gzip, deflate or brotli when the client accepts it and they reach COMPRESS_THRESHOLD bytes.', 'https://github.com/fastify/fastify-compress', [
+      'threshold: config.compressThreshold'
+    ], specifier),
+    buildTestLines: () => [
+      "  assert.ok(app.hasReplyDecorator('compress'))"
+    ]
+  },
+  {
+    optionKey: 'swagger',
+    dependencies: { '@fastify/swagger': '^9.0.0', '@fastify/swagger-ui': '^6.0.0' },
+    fileName: 'swagger',
+    buildPlugin: (resolvedOptions, specifier, projectName) => [
+      "import fp from 'fastify-plugin'",
+      "import swagger from '@fastify/swagger'",
+      "import swaggerUi from '@fastify/swagger-ui'",
+      `import { config } from '${specifier('../config')}'`,
+      '',
+      '/**',
+      ' * Builds an OpenAPI document from the route schemas and serves it with Swagger UI',
+      ' * at <prefix>/documentation. Plugins that add routes list `swagger` in their',
+      ' * dependencies so it is registered before them and sees every route.',
+      ' *',
+      ' * @see https://github.com/fastify/fastify-swagger',
+      ' */',
+      'export default fp(async function (fastify) {',
+      '  await fastify.register(swagger, {',
+      '    openapi: {',
+      `      info: { title: ${toStringLiteral(projectName)}, version: '1.0.0' }`,
+      '    }',
+      '  })',
+      '  await fastify.register(swaggerUi, {',
+      "    routePrefix: `${config.prefix ?? ''}/documentation`",
+      '  })',
+      "}, { name: 'swagger' })",
+      ''
+    ].join('\n'),
+    buildTestLines: () => [
+      "  const response = await app.inject({ method: 'GET', url: `${config.prefix ?? ''}/documentation/json` })",
+      '  assert.strictEqual(response.statusCode, 200)',
+      '  const document = response.json() as { paths: Record<string, Record<string, { tags?: string[], summary?: string }>> }',
+      "  assert.ok(Object.keys(document.paths).length > 0, 'Routes should be documented')",
+      '  for (const [url, operations] of Object.entries(document.paths)) {',
+      '    for (const [method, operation] of Object.entries(operations)) {',
+      '      assert.ok(operation.summary && operation.tags?.length, `${method.toUpperCase()} ${url} should have a summary and tags`)',
+      '    }',
+      '  }'
+    ],
+    testUsesConfig: true
+  },
+  {
+    optionKey: 'healthChecks',
+    dependencies: { '@fastify/under-pressure': '^9.0.0' },
+    fileName: 'health',
+    buildPlugin: (resolvedOptions, specifier) => {
+      const docs = (summary: string): string[] => resolvedOptions.swagger === true
+        ? ["      tags: ['health'],", `      summary: '${summary}',`]
+        : []
+      return [
+        "import fp from 'fastify-plugin'",
+        "import underPressure from '@fastify/under-pressure'",
+        "import { FastifyInstance } from 'fastify'",
+        `import { config } from '${specifier('../config')}'`,
+        '',
+        "declare module 'fastify' {",
+        '  interface FastifyInstance {',
+        '    /** Set by server.ts when shutdown starts; /health/ready fails from then on. */',
+        '    shuttingDown: boolean',
+        '  }',
+        '}',
+        '',
+        "const statusSchema = { type: 'object', properties: { status: { type: 'string' } } } as const",
+        '',
+        '/**',
+        ' * Liveness and readiness probes, outside the route prefix.',
+        ' * /health/live answers as long as the process serves requests. /health/ready answers 503',
+        ' * once shutdown starts and while the process is over a load threshold, so traffic moves',
+        ' * to other instances without this one being restarted.',
+        ' *',
+        ' * @see https://github.com/fastify/under-pressure',
+        ' */',
+        'export default fp(async function (fastify: FastifyInstance) {',
+        "  fastify.decorate('shuttingDown', false)",
+        '',
+        "  fastify.get('/health/live', {",
+        '    schema: {',
+        ...docs('Liveness probe'),
+        '      response: { 200: statusSchema }',
+        '    }',
+        '  }, async function () {',
+        "    return { status: 'ok' }",
+        '  })',
+        '',
+        '  // Registered in its own scope so only /health/ready is load checked.',
+        '  // The thresholds come from MAX_EVENT_LOOP_DELAY and friends; 0 skips one.',
+        '  await fastify.register(async function (readiness) {',
+        '    await readiness.register(underPressure, {',
+        '      maxEventLoopDelay: config.maxEventLoopDelay,',
+        '      maxEventLoopUtilization: config.maxEventLoopUtilization,',
+        '      maxHeapUsedBytes: config.maxHeapUsedBytes,',
+        '      maxRssBytes: config.maxRssBytes',
+        '    })',
+        '',
+        "    readiness.get('/health/ready', {",
+        '      schema: {',
+        ...docs('Readiness probe').map((line) => `  ${line}`),
+        '        response: { 200: statusSchema, 503: statusSchema }',
+        '      }',
+        '    }, async function (request, reply) {',
+        '      if (fastify.shuttingDown) {',
+        "        return reply.code(503).send({ status: 'shutting down' })",
+        '      }',
+        "      return { status: 'ok' }",
+        '    })',
+        '  })',
+        `}, { name: 'health', dependencies: [${resolvedOptions.swagger === true ? "'swagger'" : ''}] })`,
+        ''
+      ].join('\n')
+    },
+    buildTestLines: () => [
+      "  const live = await app.inject({ method: 'GET', url: '/health/live' })",
+      '  assert.strictEqual(live.statusCode, 200)',
+      "  const ready = await app.inject({ method: 'GET', url: '/health/ready' })",
+      "  assert.deepStrictEqual(ready.json(), { status: 'ok' })",
+      '',
+      '  // server.ts sets this when a shutdown signal arrives',
+      '  app.shuttingDown = true',
+      "  const draining = await app.inject({ method: 'GET', url: '/health/ready' })",
+      '  assert.strictEqual(draining.statusCode, 503)',
+      "  const stillLive = await app.inject({ method: 'GET', url: '/health/live' })",
+      '  assert.strictEqual(stillLive.statusCode, 200)'
+    ]
+  },
+  {
+    optionKey: 'metrics',
+    dependencies: { 'prom-client': '^15.0.0' },
+    fileName: 'metrics',
+    buildPlugin: (resolvedOptions) => [
+      "import fp from 'fastify-plugin'",
+      "import { collectDefaultMetrics, Histogram, Registry } from 'prom-client'",
+      "import { FastifyInstance } from 'fastify'",
+      '',
+      '/**',
+      ' * Serves Prometheus metrics at /metrics, outside the route prefix: the Node.js process',
+      ' * metrics and a request duration histogram per route. Routes are labeled with their',
+      ' * pattern (`/catalog/product/:id`), not the requested URL, to keep the label set small.',
+      ' *',
+      ' * @see https://github.com/siimon/prom-client',
+      ' */',
+      'export default fp(async function (fastify: FastifyInstance) {',
+      '  const registry = new Registry()',
+      '  collectDefaultMetrics({ register: registry })',
+      '',
+      '  const requestDuration = new Histogram({',
+      "    name: 'http_request_duration_seconds',",
+      "    help: 'Duration of HTTP requests in seconds',",
+      "    labelNames: ['method', 'route', 'status_code'],",
+      '    registers: [registry]',
+      '  })',
+      '',
+      "  fastify.addHook('onResponse', async function (request, reply) {",
+      "    if (request.routeOptions.url === '/metrics') {",
+      '      return',
+      '    }',
+      '    requestDuration.observe({',
+      '      method: request.method,',
+      '      // Unmatched URLs share one label so 404s cannot add a series each',
+      "      route: request.routeOptions.url ?? 'unmatched',",
+      '      status_code: reply.statusCode',
+      '    }, reply.elapsedTime / 1000)',
+      '  })',
+      '',
+      "  fastify.get('/metrics', {",
+      '    schema: {',
+      ...(resolvedOptions.swagger === true ? ["      tags: ['metrics'],", "      summary: 'Prometheus metrics',"] : []),
+      "      response: { 200: { type: 'string' } }",
+      '    }',
+      '  }, async function (request, reply) {',
+      '    reply.type(registry.contentType)',
+      '    return registry.metrics()',
+      '  })',
+      `}, { name: 'metrics', dependencies: [${resolvedOptions.swagger === true ? "'swagger'" : ''}] })`,
+      ''
+    ].join('\n'),
+    buildTestLines: () => [
+      "  await app.inject({ method: 'GET', url: '/no-such-route' })",
+      "  const response = await app.inject({ method: 'GET', url: '/metrics' })",
+      '  assert.strictEqual(response.statusCode, 200)',
+      "  assert.match(response.headers['content-type'] as string, /^text\\/plain/)",
+      '  assert.match(response.body, /^http_request_duration_seconds_count\\{method="GET",route="unmatched",status_code="404"\\} 1$/m)',
+      "  assert.match(response.body, /^process_cpu_user_seconds_total /m)"
+    ]
+  }
+]
+
+export function selectedEcosystemPlugins(resolvedOptions: ResolvedOptions): EcosystemPlugin[] {
+  return ecosystemPlugins.filter((plugin) => resolvedOptions[plugin.optionKey] === true &&
+    // The JWT auth strategy registers @fastify/jwt in plugins/auth.ts instead
+    !(plugin.optionKey === 'jwt' && resolvedOptions.auth === 'jwt'))
+}
+
+/**
+ * Secrets of the selected plugins and the auth strategy, each listed once.
+ */
+export function listSecretSettings(resolvedOptions: ResolvedOptions): SecretSetting[] {
+  const secrets = [...selectedEcosystemPlugins(resolvedOptions).flatMap((plugin) => plugin.secrets ?? []), ...authSecretSettings(resolvedOptions)]
+  return secrets.filter((secret, index) => secrets.findIndex((other) => other.env === secret.env) === index)
+}
+
+/**
+ * The plugin file for a package that only needs registering with a few options.
+ */
+function buildRegisterPlugin(
+  importName: string,
+  packageName: string,
+  summary: string,
+  docsUrl: string,
+  optionLines: string[],
+  /** Imports the generated `config` for option lines that read it. */
+  specifier?: ImportSpecifier
+): string {
+  const registerCall = optionLines.length === 0
+    ? [`  await fastify.register(${importName})`]
+    : [
+        `  await fastify.register(${importName}, {`,
+        ...optionLines.map((line, index) => `    ${line}${index < optionLines.length - 1 ? ',' : ''}`),
+        '  })'
+      ]
+
+  return [
+    "import fp from 'fastify-plugin'",
+    `import ${importName} from '${packageName}'`,
+    ...(specifier ? [`import { config } from '${specifier('../config')}'`] : []),
+    '',
+    '/**',
+    ` * ${summary}`,
+    ' *',
+    ` * @see ${docsUrl}`,
+    ' */',
+    'export default fp(async function (fastify) {',
+    ...registerCall,
+    '})',
+    ''
+  ].join('\n')
+}
+
+function corsOrigins(resolvedOptions: ResolvedOptions): string[] {
+  const origins = String(resolvedOptions.corsOrigins ?? '*').split(',').map((origin) => origin.trim()).filter(Boolean)
+  return origins.length === 0 || origins.includes('*') ? ['*'] : origins
+}
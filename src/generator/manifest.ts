@@ -0,0 +1,77 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { GeneratedFile, PluginScaffold, ProjectManifest, ResolvedOptions } from '../types'
+import { version } from '../../package.json'
+import { ManifestError } from '../errors'
+import { findOptionByName, resolveOptionsFromAnswers, toAnswers } from '../prompts/setup'
+import type { TemplateOverrides } from './templates'
+
+export const manifestFileName = 'fastify-new.json'
+
+export const generatorVersion = version
+
+/** `.env` holds secrets generated for one checkout, which must not end up in a committed file. */
+const unrecordedFiles = new Set(['.env', manifestFileName])
+
+export function isRecordedFile(relativePath: string): boolean {
+  return !unrecordedFiles.has(relativePath)
+}
+
+export function buildManifest(
+  resolvedOptions: ResolvedOptions,
+  pluginScaffolds: PluginScaffold[],
+  files: GeneratedFile[],
+  templates: TemplateOverrides
+): string {
+  const manifest: ProjectManifest = {
+    generatorVersion,
+    options: Object.fromEntries(Object.entries(toAnswers(resolvedOptions) as ResolvedOptions).map(([key, value]) => [key, value ?? null])),
+    pluginScaffolds,
+    files: Object.fromEntries(files.filter((file) => isRecordedFile(file.relativePath)).map((file) => [file.relativePath, file.content])),
+    templates
+  }
+  return formatManifest(manifest)
+}
+
+export function formatManifest(manifest: ProjectManifest): string {
+  return `${JSON.stringify(manifest, null, 2)}\n`
+}
+
+/**
+ * Resolves the options the project was generated with. Options this version no longer knows are dropped;
+ * options it added take their defaults.
+ */
+export function resolveManifestOptions(manifest: ProjectManifest): ResolvedOptions {
+  return resolveOptionsFromAnswers(Object.fromEntries(
+    Object.entries(manifest.options).filter(([key]) => findOptionByName(key) !== undefined)
+  ))
+}
+
+/**
+ * Reads the manifest of a generated project; projects generated before manifests existed have none.
+ */
+export function readManifest(projectDir: string): ProjectManifest | undefined {
+  const manifestPath = path.join(projectDir, manifestFileName)
+  if (!fs.existsSync(manifestPath)) {
+    return undefined
+  }
+
+  let parsed: Partial<ProjectManifest> | null
+  try {
+    parsed = JSON.parse(fs.readFileSync(manifestPath, 'utf8'))
+  } catch (err) {
+    throw new ManifestError(`${manifestFileName} is not valid JSON (${err instanceof Error ? err.message : String(err)})`)
+  }
+  if (
+    typeof parsed?.generatorVersion !== 'string' ||
+    parsed.options === null || typeof parsed.options !== 'object' ||
+    !Array.isArray(parsed.pluginScaffolds) ||
+    parsed.files === null || typeof parsed.files !== 'object'
+  ) {
+    throw new ManifestError(`${manifestFileName} must contain "generatorVersion", "options", "pluginScaffolds" and "files".`)
+  }
+  if (parsed.templates !== undefined && (parsed.templates === null || typeof parsed.templates !== 'object')) {
+    throw new ManifestError(`"templates" in ${manifestFileName} must be an object of template sources.`)
+  }
+  return parsed as ProjectManifest
+}
@@ -1,118 +1,287 @@
-import fs from 'node:fs'
+import { randomBytes } from 'node:crypto'
 import path from 'node:path'
-import type { GeneratedFile, PluginScaffold, ResolvedOptions } from '../types'
-import { ensureNoDuplicateFilePaths } from '../utils/validation'
+import type {
+  CategoryOption,
+  DecoratorTarget,
+  FileSystemAdapter,
+  GeneratedFile,
+  HookEvent,
+  HookScaffold,
+  HttpMethod,
+  PluginScaffold,
+  ResolvedOptions,
+  RouteScaffold
+} from '../types'
+import { categories } from '../prompts/setup'
+import { formatHook, formatResource, formatRoute } from '../prompts/plugin-wizard'
+import { GenerationError, GenerationInterruptedError, InvalidPluginError, WriteError } from '../errors'
+import { nodeFileSystem } from '../utils/file-system'
+import { listSecretSettings, selectedEcosystemPlugins, type EcosystemPlugin } from './ecosystem-plugins'
+import {
+  buildDatabaseFiles,
+  databaseDependencies,
+  databaseUrlSetting,
+  defaultDatabaseUrl,
+  hasDatabase,
+  isSqlDatabase
+} from './database'
+import { authDependencies, authTestHeaders, buildAuthFiles, hasAuth } from './auth'
+import { buildDeploymentFiles, hasDocker, hasDockerCompose } from './deployment'
+import { buildManifest, manifestFileName } from './manifest'
+import { buildResourceRepository, buildResourceRoutes, buildResourceSchema, buildResourceTestLines } from './resources'
+import { applyTemplate, type TemplateContext, type TemplateName, type TemplateOverrides } from './templates'
+import { ensureNoDuplicateFilePaths, validateNewProjectTarget } from '../utils/validation'
+import { toStringLiteral } from '../utils/source'
 
-export function generateProject(
-  targetDir: string,
-  resolvedOptions: ResolvedOptions,
-  pluginScaffolds: PluginScaffold[]
-): void {
-  const absoluteTarget = path.resolve(process.cwd(), targetDir)
-  fs.mkdirSync(absoluteTarget, { recursive: false })
-
-  // Create subdirectories
-  fs.mkdirSync(path.join(absoluteTarget, 'plugins'), { recursive: false })
-  fs.mkdirSync(path.join(absoluteTarget, 'routes'), { recursive: false })
-  fs.mkdirSync(path.join(absoluteTarget, 'routes', 'root'), { recursive: false })
-  fs.mkdirSync(path.join(absoluteTarget, 'test'), { recursive: false })
-  fs.mkdirSync(path.join(absoluteTarget, 'test', 'plugins'), { recursive: false })
-  fs.mkdirSync(path.join(absoluteTarget, 'test', 'routes'), { recursive: false })
-
-  const packageJson = buildPackageJson(targetDir, resolvedOptions)
-  const tsconfig = buildTsconfig()
-  const appTs = buildAppTs(resolvedOptions)
-  const pluginSensible = buildPluginSensible()
-  const pluginSupport = buildPluginSupport()
-  const routeRoot = buildRouteRoot()
-  const routeRootIndex = buildRouteRootIndex()
-  const testHelper = buildTestHelper()
-  const testPluginSupport = buildTestPluginSupport()
-  const testRouteRoot = buildTestRouteRoot()
-  const gitignore = buildGitignore()
-  const dotenv = buildDotenv(resolvedOptions)
-  const readme = buildReadme(targetDir, resolvedOptions, pluginScaffolds)
-
-  const customPluginFiles = buildCustomPluginFiles(pluginScaffolds)
-  const baseGeneratedFilePaths = [
-    'package.json',
-    'tsconfig.json',
-    'app.ts',
-    'plugins/sensible.ts',
-    'plugins/support.ts',
-    'routes/root.ts',
-    'routes/root/index.ts',
-    'test/helper.ts',
-    'test/plugins/support.test.ts',
-    'test/routes/root.test.ts',
-    '.gitignore',
-    '.env',
-    'README.md'
-  ]
+const methodsWithBody: HttpMethod[] = ['POST', 'PUT', 'PATCH']
+
+interface DecoratorApi {
+  /** The Fastify method that adds the decorator. */
+  method: 'decorate' | 'decorateRequest' | 'decorateReply'
+  /** The Fastify interface extended through declaration merging. */
+  augments: 'FastifyInstance' | 'FastifyRequest' | 'FastifyReply'
+}
+
+const decoratorApis: Record<DecoratorTarget, DecoratorApi> = {
+  instance: { method: 'decorate', augments: 'FastifyInstance' },
+  request: { method: 'decorateRequest', augments: 'FastifyRequest' },
+  reply: { method: 'decorateReply', augments: 'FastifyReply' }
+}
+
+interface HookSignature {
+  imports: string[]
+  params: string
+  returnType: string
+  /** The logger reachable from the handler. */
+  log: string
+  body: string[]
+}
+
+const requestHookSignature: HookSignature = {
+  imports: ['FastifyReply', 'FastifyRequest'],
+  params: 'request: FastifyRequest, reply: FastifyReply',
+  returnType: 'Promise<void>',
+  log: 'request.log',
+  body: []
+}
+
+const payloadHookSignature: HookSignature = {
+  imports: ['FastifyReply', 'FastifyRequest'],
+  params: 'request: FastifyRequest, reply: FastifyReply, payload: unknown',
+  returnType: 'Promise<unknown>',
+  log: 'request.log',
+  body: ['return payload']
+}
+
+/**
+ * Handler signature per lifecycle event; payload hooks must hand the (possibly replaced) payload on.
+ */
+const hookSignatures: Record<HookEvent, HookSignature> = {
+  onRequest: requestHookSignature,
+  preParsing: {
+    imports: ['FastifyReply', 'FastifyRequest', 'RequestPayload'],
+    params: 'request: FastifyRequest, reply: FastifyReply, payload: RequestPayload',
+    returnType: 'Promise<RequestPayload>',
+    log: 'request.log',
+    body: ['return payload']
+  },
+  preValidation: requestHookSignature,
+  preHandler: requestHookSignature,
+  preSerialization: payloadHookSignature,
+  onSend: payloadHookSignature,
+  onResponse: requestHookSignature,
+  onError: {
+    imports: ['FastifyError', 'FastifyReply', 'FastifyRequest'],
+    params: 'request: FastifyRequest, reply: FastifyReply, error: FastifyError',
+    returnType: 'Promise<void>',
+    log: 'request.log',
+    body: []
+  },
+  onTimeout: requestHookSignature,
+  onReady: {
+    imports: [],
+    params: 'this: FastifyInstance',
+    returnType: 'Promise<void>',
+    log: 'this.log',
+    body: []
+  },
+  onClose: {
+    imports: [],
+    params: 'instance: FastifyInstance',
+    returnType: 'Promise<void>',
+    log: 'instance.log',
+    body: []
+  }
+}
+
+export interface WriteOptions {
+  /** Defaults to the real filesystem. */
+  fs?: FileSystemAdapter
+  /** Base directory for a relative target; defaults to `process.cwd()`. */
+  cwd?: string
+  /** Aborting stops the write and removes everything written so far. */
+  signal?: AbortSignal
+}
 
-  ensureNoDuplicateFilePaths([
-    ...baseGeneratedFilePaths,
-    ...customPluginFiles.map((file) => file.relativePath)
-  ])
+/**
+ * Writes files built by `buildProjectFiles` into a temporary sibling of the target directory,
+ * then renames it into place. On any failure or abort the temporary directory is removed,
+ * so the target is either complete or absent.
+ */
+export async function writeProjectFiles(targetDir: string, files: GeneratedFile[], writeOptions: WriteOptions = {}): Promise<void> {
+  const fileSystem = writeOptions.fs ?? nodeFileSystem
+  const signal = writeOptions.signal
+  const absoluteTarget = path.resolve(writeOptions.cwd ?? process.cwd(), targetDir)
+  validateNewProjectTarget(targetDir, await fileSystem.exists(absoluteTarget))
 
-  fs.writeFileSync(path.join(absoluteTarget, 'package.json'), `${JSON.stringify(packageJson, null, 2)}\n`)
-  fs.writeFileSync(path.join(absoluteTarget, 'tsconfig.json'), `${JSON.stringify(tsconfig, null, 2)}\n`)
-  fs.writeFileSync(path.join(absoluteTarget, 'app.ts'), appTs)
-  fs.writeFileSync(path.join(absoluteTarget, 'plugins', 'sensible.ts'), pluginSensible)
-  fs.writeFileSync(path.join(absoluteTarget, 'plugins', 'support.ts'), pluginSupport)
-  fs.writeFileSync(path.join(absoluteTarget, 'routes', 'root.ts'), routeRoot)
-  fs.writeFileSync(path.join(absoluteTarget, 'routes', 'root', 'index.ts'), routeRootIndex)
-  fs.writeFileSync(path.join(absoluteTarget, 'test', 'helper.ts'), testHelper)
-  fs.writeFileSync(path.join(absoluteTarget, 'test', 'plugins', 'support.test.ts'), testPluginSupport)
-  fs.writeFileSync(path.join(absoluteTarget, 'test', 'routes', 'root.test.ts'), testRouteRoot)
-  fs.writeFileSync(path.join(absoluteTarget, '.gitignore'), gitignore)
-  fs.writeFileSync(path.join(absoluteTarget, '.env'), dotenv)
-  fs.writeFileSync(path.join(absoluteTarget, 'README.md'), readme)
+  let tempDir: string | undefined
+  try {
+    tempDir = await fileSystem.mkdtemp(path.join(path.dirname(absoluteTarget), `.${path.basename(absoluteTarget)}-`))
+    for (const file of files) {
+      if (signal?.aborted) {
+        throw new GenerationInterruptedError()
+      }
+      const absolutePath = path.join(tempDir, file.relativePath)
+      await fileSystem.mkdir(path.dirname(absolutePath))
+      await fileSystem.writeFile(absolutePath, file.content)
+    }
+    if (signal?.aborted) {
+      throw new GenerationInterruptedError()
+    }
+    validateNewProjectTarget(targetDir, await fileSystem.exists(absoluteTarget))
+    await fileSystem.rename(tempDir, absoluteTarget)
+  } catch (err) {
+    if (tempDir) {
+      await fileSystem.rm(tempDir)
+    }
+    if (err instanceof GenerationError) {
+      throw err
+    }
+    throw new WriteError(`Could not write the project to ${absoluteTarget}: ${(err as Error).message}`, { cause: err })
+  }
+}
 
-  for (const file of customPluginFiles) {
-    fs.mkdirSync(path.dirname(path.join(absoluteTarget, file.relativePath)), { recursive: true })
-    fs.writeFileSync(path.join(absoluteTarget, file.relativePath), file.content)
+/**
+ * Builds every file of a new project in memory, in write order, without touching the disk.
+ */
+export function buildProjectFiles(
+  targetDir: string,
+  resolvedOptions: ResolvedOptions,
+  pluginScaffolds: PluginScaffold[],
+  templates: TemplateOverrides = {}
+): GeneratedFile[] {
+  const ecosystem = selectedEcosystemPlugins(resolvedOptions)
+  const specifier = (modulePath: string): string => importSpecifier(resolvedOptions, modulePath)
+  const projectFiles: GeneratedFile[] = [
+    { relativePath: 'package.json', content: `${JSON.stringify(buildPackageJson(targetDir, resolvedOptions), null, 2)}\n` },
+    { relativePath: 'tsconfig.json', content: `${JSON.stringify(buildTsconfig(resolvedOptions), null, 2)}\n` },
+    { relativePath: 'app.ts', content: buildAppTs(resolvedOptions) },
+    { relativePath: 'server.ts', content: buildServerTs(resolvedOptions) },
+    { relativePath: 'config.ts', content: buildConfigTs(resolvedOptions) },
+    ...(hasTracing(resolvedOptions) ? [{ relativePath: 'tracing.ts', content: buildTracingTs(resolvedOptions, path.basename(targetDir)) }] : []),
+    ...(resolvedOptions.sensible !== false ? [{ relativePath: 'plugins/sensible.ts', content: buildPluginSensible() }] : []),
+    ...(resolvedOptions.supportPlugin !== false ? [{ relativePath: 'plugins/support.ts', content: buildPluginSupport() }] : []),
+    ...ecosystem.flatMap((plugin) => [
+      { relativePath: `plugins/${plugin.fileName}.ts`, content: plugin.buildPlugin(resolvedOptions, specifier, path.basename(targetDir)) },
+      ...(plugin.extraFiles ?? [])
+    ]),
+    { relativePath: 'routes/root.ts', content: buildRouteRoot(resolvedOptions) },
+    { relativePath: 'routes/root/index.ts', content: buildRouteRootIndex(resolvedOptions) },
+    { relativePath: 'test/helper.ts', content: buildTestHelper(resolvedOptions) },
+    ...(resolvedOptions.supportPlugin !== false
+      ? [{ relativePath: 'test/plugins/support.test.ts', content: buildTestPluginSupport(resolvedOptions) }]
+      : []),
+    ...ecosystem.map((plugin) => ({
+      relativePath: `test/plugins/${plugin.fileName}.test.ts`,
+      content: buildTestEcosystemPlugin(plugin, resolvedOptions)
+    })),
+    ...buildDatabaseFiles(resolvedOptions, specifier, isEsm(resolvedOptions)),
+    ...buildAuthFiles(resolvedOptions, specifier),
+    { relativePath: 'test/routes/root.test.ts', content: buildTestRouteRoot(resolvedOptions) },
+    { relativePath: '.gitignore', content: buildGitignore(resolvedOptions) },
+    { relativePath: '.env', content: buildDotenv(resolvedOptions, path.basename(targetDir), true) },
+    { relativePath: '.env.example', content: buildDotenv(resolvedOptions, path.basename(targetDir), false) },
+    ...buildDeploymentFiles(resolvedOptions, path.basename(targetDir)),
+    { relativePath: 'README.md', content: buildReadme(targetDir, resolvedOptions, pluginScaffolds) }
+  ]
+  // Project files are named after their relative path.
+  const files = [
+    ...projectFiles.map((file) => ({
+      relativePath: file.relativePath,
+      content: applyTemplate(templates, file.relativePath as TemplateName, file.relativePath, file.content, { options: resolvedOptions })
+    })),
+    ...buildCustomPluginFiles(pluginScaffolds, resolvedOptions, templates)
+  ]
+  // app.ts autoloads plugins/, which must exist even when nothing is generated into it.
+  if (!files.some((file) => file.relativePath.startsWith('plugins/'))) {
+    files.push({ relativePath: 'plugins/.gitkeep', content: '' })
   }
+  files.push({ relativePath: manifestFileName, content: buildManifest(resolvedOptions, pluginScaffolds, files, templates) })
+
+  ensureNoDuplicateFilePaths(files.map((file) => file.relativePath))
+  return files
 }
 
 function buildPackageJson(targetDir: string, resolvedOptions: ResolvedOptions): object {
+  const database = databaseDependencies(resolvedOptions)
+
   return {
     name: path.basename(targetDir),
     version: '1.0.0',
     description: 'A Fastify application',
     main: 'dist/app.js',
+    ...(isEsm(resolvedOptions) ? { type: 'module' } : {}),
     directories: { test: 'test' },
     scripts: {
       build: 'tsc',
       test: 'tsx --test test/**/*.test.ts',
       start: resolvedOptions.debug
-        ? `node --inspect=${resolvedOptions.debugHost ?? 'localhost'}:${resolvedOptions.debugPort ?? 9320} dist/app.js`
-        : 'node dist/app.js',
-      dev: ['tsx', resolvedOptions.watch ? 'watch' : '', 'app.ts'].filter(Boolean).join(' ')
+        ? `node --inspect=${resolvedOptions.debugHost ?? 'localhost'}:${resolvedOptions.debugPort ?? 9320} dist/server.js`
+        : 'node dist/server.js',
+      dev: ['tsx', resolvedOptions.watch ? 'watch' : '', 'server.ts'].filter(Boolean).join(' '),
+      ...(hasDatabase(resolvedOptions) ? { 'db:migrate': 'tsx migrate.ts', 'db:rollback': 'tsx migrate.ts rollback' } : {})
     },
     keywords: ['fastify'],
     author: '',
     license: 'ISC',
     dependencies: {
       '@fastify/autoload': '^6.0.0',
-      '@fastify/sensible': '^6.0.0',
+      ...(resolvedOptions.sensible !== false ? { '@fastify/sensible': '^6.0.0' } : {}),
+      ...Object.assign({}, ...selectedEcosystemPlugins(resolvedOptions).map((plugin) => plugin.dependencies)),
+      ...authDependencies(resolvedOptions),
+      ...(hasTracing(resolvedOptions)
+        ? {
+            '@fastify/otel': '^0.21.0',
+            '@opentelemetry/api': '^1.9.0',
+            ...(resolvedOptions.tracing === 'collector' ? { '@opentelemetry/exporter-trace-otlp-http': '^0.222.0' } : {}),
+            '@opentelemetry/sdk-node': '^0.222.0'
+          }
+        : {}),
+      ...database.dependencies,
       'close-with-grace': '^2.0.0',
+      'env-schema': '^6.0.0',
       fastify: '^5.0.0',
       'fastify-plugin': '^5.0.0'
     },
     devDependencies: {
+      ...database.devDependencies,
       '@types/node': '^22.0.0',
+      'pino-pretty': '^13.0.0',
       typescript: '^5.0.0',
       tsx: '^4.0.0'
     }
   }
 }
 
-function buildTsconfig(): object {
+function buildTsconfig(resolvedOptions: ResolvedOptions): object {
+  const moduleOptions = isEsm(resolvedOptions)
+    ? { module: 'NodeNext', moduleResolution: 'NodeNext' }
+    : { module: 'commonjs' }
+
   return {
     compilerOptions: {
       target: 'ES2022',
-      module: 'commonjs',
+      ...moduleOptions,
       lib: ['ES2022'],
       outDir: './dist',
       rootDir: './',
@@ -130,61 +299,108 @@ function buildTsconfig(): object {
 }
 
 function buildAppTs(resolvedOptions: ResolvedOptions): string {
-  const loggerConfig = resolvedOptions.prettyLogs
-    ? `{ level: '${resolvedOptions.logLevel ?? 'fatal'}', transport: { target: 'pino-pretty' } }`
-    : `{ level: '${resolvedOptions.logLevel ?? 'fatal'}' }`
-  const trustProxyValue = resolvedOptions.trustProxyEffective
-  const trustProxyEntry = trustProxyValue !== undefined
-    ? `trustProxy: ${typeof trustProxyValue === 'string' ? `'${trustProxyValue}'` : trustProxyValue}`
-    : ''
-  const extras = [
-    resolvedOptions.pluginTimeout !== undefined ? `pluginTimeout: ${resolvedOptions.pluginTimeout}` : '',
-    resolvedOptions.bodyLimit !== undefined ? `bodyLimit: ${resolvedOptions.bodyLimit}` : '',
-    trustProxyEntry
-  ].filter(Boolean)
-  const opts = [`logger: ${loggerConfig}`, ...extras].join(', ')
-  const closeGraceDelay = resolvedOptions.closeGraceDelay ?? 500
+  const dirname = isEsm(resolvedOptions) ? 'import.meta.dirname' : '__dirname'
+  const tracing = hasTracing(resolvedOptions)
 
   return [
+    "import { randomUUID } from 'node:crypto'",
     "import path from 'node:path'",
     "import AutoLoad from '@fastify/autoload'",
-    "import Fastify from 'fastify'",
-    "import closeWithGrace from 'close-with-grace'",
+    "import Fastify, { FastifyInstance, FastifyServerOptions } from 'fastify'",
+    `import { config } from '${importSpecifier(resolvedOptions, './config')}'`,
+    ...(tracing ? [`import { fastifyOtel } from '${importSpecifier(resolvedOptions, './tracing')}'`] : []),
     '',
-    'async function start(): Promise<void> {',
-    `  const app = Fastify({ ${opts} })`,
+    '/**',
+    ' * Builds the application without starting it.',
+    ' * Used by server.ts to listen and by the tests to inject requests.',
+    ' * @param opts Fastify server options, merged over the ones read from config',
+    ' */',
+    'export async function build(opts: FastifyServerOptions = {}): Promise<FastifyInstance> {',
+    '  const app = Fastify({',
+    '    logger: {',
+    '      level: config.logLevel,',
+    "      transport: config.prettyLogs ? { target: 'pino-pretty' } : undefined",
+    '    },',
+    '    pluginTimeout: config.pluginTimeout,',
+    '    bodyLimit: config.bodyLimit,',
+    '    trustProxy: config.trustProxy,',
+    "    // Reuse the caller's request ID when it sends one, so logs can be correlated across services",
+    '    requestIdHeader: config.requestIdHeader,',
+    '    genReqId: () => randomUUID(),',
+    '    ...opts',
+    '  })',
     '',
-    '  app.register(AutoLoad, {',
-    "    dir: path.join(__dirname, 'plugins'),",
+    "  app.addHook('onRequest', async function (request, reply) {",
+    "    reply.header(config.requestIdHeader ?? 'x-request-id', request.id)",
+    '  })',
+    '',
+    ...(tracing
+      ? [
+          '  // Before any other plugin, so every route and hook is traced',
+          '  await app.register(fastifyOtel.plugin())',
+          ''
+        ]
+      : []),
+    '  await app.register(AutoLoad, {',
+    `    dir: path.join(${dirname}, 'plugins'),`,
+    '    // plugins/<name>/index.ts registers its own routes, hooks and child plugins',
+    '    maxDepth: 1,',
     '    options: {}',
     '  })',
     '',
-    '  app.register(AutoLoad, {',
-    "    dir: path.join(__dirname, 'routes'),",
-    resolvedOptions.prefix
-      ? `    options: { prefix: '${resolvedOptions.prefix}' }`
-      : '    options: {}',
+    '  await app.register(AutoLoad, {',
+    `    dir: path.join(${dirname}, 'routes'),`,
+    '    options: { prefix: config.prefix }',
     '  })',
     '',
-    '  await app.ready()',
+    '  return app',
+    '}',
+    ''
+  ].join('\n')
+}
+
+function buildServerTs(resolvedOptions: ResolvedOptions): string {
+  const healthChecks = resolvedOptions.healthChecks === true
+  const tracing = hasTracing(resolvedOptions)
+
+  return [
+    ...(healthChecks ? ["import { setTimeout } from 'node:timers/promises'"] : []),
+    "import closeWithGrace from 'close-with-grace'",
+    `import { build } from '${importSpecifier(resolvedOptions, './app')}'`,
+    `import { config } from '${importSpecifier(resolvedOptions, './config')}'`,
+    ...(tracing ? [`import { startTracing } from '${importSpecifier(resolvedOptions, './tracing')}'`] : []),
     '',
-    `  closeWithGrace({ delay: ${closeGraceDelay} }, async ({ err }) => {`,
+    'async function start(): Promise<void> {',
+    ...(tracing ? ['  const tracing = startTracing()'] : []),
+    '  const app = await build()',
+    '',
+    '  closeWithGrace({ delay: config.closeGraceDelay }, async ({ err }) => {',
     '    if (err) {',
     '      app.log.error(err)',
     '    }',
+    ...(healthChecks
+      ? [
+          '    // Fail /health/ready for the first half of the grace delay so load balancers',
+          '    // stop sending traffic before the server stops accepting connections',
+          '    app.shuttingDown = true',
+          '    await setTimeout(config.closeGraceDelay / 2)'
+        ]
+      : []),
     '    await app.close()',
+    ...(tracing ? ['    // Flush the spans that are still buffered', '    await tracing.shutdown()'] : []),
     '  })',
     '',
-    '  app.listen({',
-    `    port: ${resolvedOptions.port ?? 3000},`,
-    resolvedOptions.host ? `    host: '${resolvedOptions.host}',` : '    // host: undefined,',
-    '  }, (err) => {',
-    '    if (err) {',
-    '      app.log.error(err)',
-    '      process.exit(1)',
+    '  try {',
+    '    // A socket path (or Windows named pipe) replaces host and port',
+    '    if (config.socket) {',
+    '      await app.listen({ path: config.socket })',
+    '    } else {',
+    '      await app.listen({ port: config.port, host: config.host })',
     '    }',
-    "    app.log.info(`server listening on ${app.server.address()}`)",
-    '  })',
+    '  } catch (err) {',
+    '    app.log.error(err)',
+    '    process.exit(1)',
+    '  }',
     '}',
     '',
     'start()',
@@ -192,6 +408,120 @@ function buildAppTs(resolvedOptions: ResolvedOptions): string {
   ].join('\n')
 }
 
+/**
+ * Generates config.ts: every setup option is read from the environment (and `.env`),
+ * validated against a JSON schema whose defaults are the answers given in the wizard.
+ */
+function buildConfigTs(resolvedOptions: ResolvedOptions): string {
+  const envOptions = listEnvOptions(resolvedOptions)
+
+  const schemaLines = envOptions.map((option) => {
+    const value = resolvedOptions[option.key]
+    const parts = [`type: '${option.type === 'choice' || option.type === 'string' ? 'string' : option.type === 'number' ? 'number' : 'boolean'}'`]
+    if (option.type === 'choice') {
+      parts.push(`enum: [${option.choices!.map((choice) => `'${choice}'`).join(', ')}]`)
+    }
+    if (value !== undefined) {
+      parts.push(`default: ${typeof value === 'string' ? toStringLiteral(value) : value}`)
+    }
+    return `    ${option.env}: { ${parts.join(', ')} }`
+  })
+
+  const envTypeLines = envOptions.map((option) => {
+    const tsType = option.type === 'number' ? 'number' : option.type === 'boolean' || option.type === 'tri-boolean' ? 'boolean' : 'string'
+    const optional = resolvedOptions[option.key] === undefined ? '?' : ''
+    return `  ${option.env}${optional}: ${tsType}`
+  })
+
+  // Secrets and the database URL have no default, so the app refuses to start without them.
+  const secrets = [...listSecretSettings(resolvedOptions), ...(hasDatabase(resolvedOptions) ? [databaseUrlSetting] : [])]
+  schemaLines.push(...secrets.map((secret) => `    ${secret.env}: { type: 'string', minLength: 1 }`))
+  envTypeLines.push(...secrets.map((secret) => `  ${secret.env}: string`))
+
+  return [
+    "import envSchema from 'env-schema'",
+    '',
+    '/**',
+    ' * Runtime configuration, read from the environment and `.env`.',
+    ' * The schema defaults are the answers given when the project was generated.',
+    ' */',
+    'const schema = {',
+    "  type: 'object',",
+    ...(secrets.length > 0 ? [`  required: [${secrets.map((secret) => `'${secret.env}'`).join(', ')}],`] : []),
+    '  properties: {',
+    schemaLines.join(',\n'),
+    '  }',
+    '}',
+    '',
+    'interface Env {',
+    ...envTypeLines,
+    '}',
+    '',
+    'const env = envSchema<Env>({ schema, dotenv: { quiet: true } })',
+    '',
+    'export const config = {',
+    ...envOptions.map((option) => `  ${option.key}: env.${option.env},`),
+    ...secrets.map((secret) => `  ${secret.key}: env.${secret.env},`),
+    '  trustProxy: resolveTrustProxy(env)',
+    '}',
+    '',
+    '/**',
+    ' * An explicit true/false wins over a list of IPs/CIDR, which wins over a hop count.',
+    ' * A hop count trusts the first N proxies, like Fastify does for a numeric `trustProxy`.',
+    ' */',
+    'function resolveTrustProxy(env: Env): boolean | string | ((address: string, hop: number) => boolean) | undefined {',
+    '  if (env.TRUST_PROXY_ENABLED !== undefined) {',
+    '    return env.TRUST_PROXY_ENABLED',
+    '  }',
+    '  if (env.TRUST_PROXY_IPS) {',
+    '    return env.TRUST_PROXY_IPS',
+    '  }',
+    '  const hops = env.TRUST_PROXY_HOP',
+    '  return hops === undefined ? undefined : (address, hop) => hop < hops',
+    '}',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Generates tracing.ts, the OpenTelemetry bootstrap. server.ts starts it; the tests do not,
+ * so their spans go nowhere.
+ */
+function buildTracingTs(resolvedOptions: ResolvedOptions, projectName: string): string {
+  const collector = resolvedOptions.tracing === 'collector'
+
+  return [
+    `import { NodeSDK${collector ? '' : ', tracing'} } from '@opentelemetry/sdk-node'`,
+    ...(collector ? ["import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http'"] : []),
+    "import { FastifyOtelInstrumentation } from '@fastify/otel'",
+    '',
+    '/** Creates a span for every request and lifecycle hook once app.ts registers its plugin. */',
+    'export const fastifyOtel = new FastifyOtelInstrumentation()',
+    '',
+    '/**',
+    ...(collector
+      ? [
+          ' * Starts exporting spans to an OpenTelemetry collector over OTLP/HTTP, at',
+          ' * OTEL_EXPORTER_OTLP_ENDPOINT (http://localhost:4318 when unset).'
+        ]
+      : [' * Starts printing spans to the console. Switch the exporter to send them to a collector instead.']),
+    ' * `shutdown()` flushes the spans that are still buffered.',
+    ' *',
+    ' * @see https://opentelemetry.io/docs/languages/js/',
+    ' */',
+    'export function startTracing(): NodeSDK {',
+    '  const sdk = new NodeSDK({',
+    `    serviceName: ${toStringLiteral(projectName)},`,
+    `    traceExporter: ${collector ? 'new OTLPTraceExporter()' : 'new tracing.ConsoleSpanExporter()'},`,
+    '    instrumentations: [fastifyOtel]',
+    '  })',
+    '  sdk.start()',
+    '  return sdk',
+    '}',
+    ''
+  ].join('\n')
+}
+
 function buildPluginSensible(): string {
   return [
     "import fp from 'fastify-plugin'",
@@ -217,6 +547,8 @@ function buildPluginSupport(): string {
     '// the use of fastify-plugin is required to be able',
     '// to export the decorators to the outer scope',
     '',
+    ...buildModuleAugmentation('FastifyInstance', ['someSupport(): string']),
+    '',
     '/**',
     ' * This defines the support plugin for the application.',
     ' * You can use fastify.someSupport() to call it from your routes.',
@@ -230,7 +562,14 @@ function buildPluginSupport(): string {
   ].join('\n')
 }
 
-function buildRouteRoot(): string {
+/**
+ * OpenAPI metadata for a route schema; `tags` and `summary` only type-check once @fastify/swagger is installed.
+ */
+function buildRouteDocs(resolvedOptions: ResolvedOptions, tag: string, summary: string): string[] {
+  return resolvedOptions.swagger === true ? [`      tags: ['${tag}'],`, `      summary: ${toStringLiteral(summary)},`] : []
+}
+
+function buildRouteRoot(resolvedOptions: ResolvedOptions): string {
   return [
     "import { FastifyInstance, FastifyPluginOptions } from 'fastify'",
     '',
@@ -240,7 +579,12 @@ function buildRouteRoot(): string {
     ' * @param opts plugin options',
     ' */',
     'export default async function (fastify: FastifyInstance, opts: FastifyPluginOptions): Promise<void> {',
-    "  fastify.get('/', async function (request, reply) {",
+    "  fastify.get('/', {",
+    '    schema: {',
+    ...buildRouteDocs(resolvedOptions, 'root', 'Check that the service is up'),
+    "      response: { 200: { type: 'object', properties: { root: { type: 'boolean' } }, required: ['root'] } }",
+    '    }',
+    '  }, async function (request, reply) {',
     '    return { root: true }',
     '  })',
     '}',
@@ -248,12 +592,17 @@ function buildRouteRoot(): string {
   ].join('\n')
 }
 
-function buildRouteRootIndex(): string {
+function buildRouteRootIndex(resolvedOptions: ResolvedOptions): string {
   return [
     "import { FastifyInstance, FastifyPluginOptions } from 'fastify'",
     '',
     'export default async function (fastify: FastifyInstance, opts: FastifyPluginOptions): Promise<void> {',
-    "  fastify.get('/', async function (request, reply) {",
+    "  fastify.get('/', {",
+    '    schema: {',
+    ...buildRouteDocs(resolvedOptions, 'root', 'Example nested route'),
+    "      response: { 200: { type: 'string' } }",
+    '    }',
+    '  }, async function (request, reply) {',
     "    return 'root'",
     '  })',
     '}',
@@ -261,14 +610,41 @@ function buildRouteRootIndex(): string {
   ].join('\n')
 }
 
-function buildTestHelper(): string {
+function buildTestHelper(resolvedOptions: ResolvedOptions): string {
+  if (isSqlDatabase(resolvedOptions)) {
+    return [
+      '// This file contains code that will be run before your tests.',
+      "import type { TestContext } from 'node:test'",
+      "import type { FastifyInstance } from 'fastify'",
+      '',
+      '// An in-memory SQLite database unless DATABASE_URL is set, so the tests need no database server',
+      "process.env.DATABASE_URL ??= ':memory:'",
+      '',
+      'async function buildApp(t: TestContext): Promise<FastifyInstance> {',
+      '  // Imported here so that config.ts reads DATABASE_URL after it is set',
+      `  const { build } = await import('${importSpecifier(resolvedOptions, '../app')}')`,
+      '  const app = await build()',
+      '  t.after(() => app.close())',
+      '  await app.ready()',
+      '  await app.db.migrate.latest()',
+      '  return app',
+      '}',
+      '',
+      'export { buildApp }',
+      ''
+    ].join('\n')
+  }
+
   return [
     '// This file contains code that will be run before your tests.',
-    "import { build } from '../app'",
+    "import type { TestContext } from 'node:test'",
+    "import type { FastifyInstance } from 'fastify'",
+    `import { build } from '${importSpecifier(resolvedOptions, '../app')}'`,
     '',
-    'async function buildApp(t: any): Promise<any> {',
+    'async function buildApp(t: TestContext): Promise<FastifyInstance> {',
     '  const app = await build()',
     '  t.after(() => app.close())',
+    '  await app.ready()',
     '  return app',
     '}',
     '',
@@ -277,11 +653,11 @@ function buildTestHelper(): string {
   ].join('\n')
 }
 
-function buildTestPluginSupport(): string {
+function buildTestPluginSupport(resolvedOptions: ResolvedOptions): string {
   return [
     "import { test } from 'node:test'",
     "import assert from 'node:assert'",
-    "import { buildApp } from '../helper'",
+    `import { buildApp } from '${importSpecifier(resolvedOptions, '../helper')}'`,
     '',
     "test('support plugin', async (t) => {",
     '  const app = await buildApp(t)',
@@ -291,15 +667,32 @@ function buildTestPluginSupport(): string {
   ].join('\n')
 }
 
-function buildTestRouteRoot(): string {
+function buildTestEcosystemPlugin(plugin: EcosystemPlugin, resolvedOptions: ResolvedOptions): string {
   return [
     "import { test } from 'node:test'",
     "import assert from 'node:assert'",
-    "import { buildApp } from '../helper'",
+    `import { buildApp } from '${importSpecifier(resolvedOptions, '../helper')}'`,
+    ...(plugin.testUsesConfig ? [`import { config } from '${importSpecifier(resolvedOptions, '../../config')}'`] : []),
+    '',
+    `test('${plugin.fileName} plugin', async (t) => {`,
+    '  const app = await buildApp(t)',
+    ...plugin.buildTestLines(resolvedOptions),
+    '})',
+    ''
+  ].join('\n')
+}
+
+function buildTestRouteRoot(resolvedOptions: ResolvedOptions): string {
+  return [
+    "import { test } from 'node:test'",
+    "import assert from 'node:assert'",
+    `import { buildApp } from '${importSpecifier(resolvedOptions, '../helper')}'`,
+    `import { config } from '${importSpecifier(resolvedOptions, '../../config')}'`,
     '',
     "test('root route', async (t) => {",
     '  const app = await buildApp(t)',
-    "  const response = await app.inject({ method: 'GET', url: '/' })",
+    '  // routes/ is served under the configured prefix',
+    "  const response = await app.inject({ method: 'GET', url: `${config.prefix ?? ''}/` })",
     '  assert.strictEqual(response.statusCode, 200)',
     '  assert.deepStrictEqual(JSON.parse(response.body), { root: true })',
     '})',
@@ -307,19 +700,88 @@ function buildTestRouteRoot(): string {
   ].join('\n')
 }
 
-function buildGitignore(): string {
-  return ['node_modules', 'dist', '.DS_Store', '*.log', 'build', ''].join('\n')
-}
-
-function buildDotenv(resolvedOptions: ResolvedOptions): string {
+function buildGitignore(resolvedOptions: ResolvedOptions): string {
   return [
-    `PORT=${resolvedOptions.port ?? 3000}`,
-    resolvedOptions.host ? `HOST=${resolvedOptions.host}` : '# HOST=',
-    `LOG_LEVEL=${resolvedOptions.logLevel ?? 'fatal'}`,
+    'node_modules', 'dist', '.DS_Store', '*.log', 'build', '.env',
+    ...(resolvedOptions.database === 'sqlite' ? ['*.sqlite'] : []),
     ''
   ].join('\n')
 }
 
+/**
+ * Secrets get a fresh random value in `.env`, which is git-ignored, and stay blank in `.env.example`.
+ */
+function buildDotenv(resolvedOptions: ResolvedOptions, projectName: string, withSecrets: boolean): string {
+  const lines = ['# Runtime configuration, validated by config.ts']
+  for (const option of listEnvOptions(resolvedOptions)) {
+    const value = resolvedOptions[option.key]
+    lines.push(value === undefined ? `# ${option.env}=` : `${option.env}=${formatEnvValue(value)}`)
+  }
+  if (hasDatabase(resolvedOptions)) {
+    lines.push('', isSqlDatabase(resolvedOptions)
+      ? '# Database connection (required); the tests use an in-memory SQLite database'
+      : '# Database connection (required)')
+    lines.push(`${databaseUrlSetting.env}=${defaultDatabaseUrl(resolvedOptions, projectName)}`)
+  }
+  const secrets = listSecretSettings(resolvedOptions)
+  if (secrets.length > 0) {
+    lines.push('', withSecrets ? '# Secrets, generated for this checkout only' : '# Secrets (required): set your own values')
+    for (const secret of secrets) {
+      lines.push(withSecrets ? `${secret.env}=${randomBytes(32).toString('hex')}` : `${secret.env}=`)
+    }
+  }
+  lines.push('')
+  return lines.join('\n')
+}
+
+function formatEnvValue(value: string | number | boolean): string {
+  const text = String(value)
+  return /[\s#"']/.test(text) ? `"${text.replace(/"/g, '\\"')}"` : text
+}
+
+/**
+ * Turns a scaffold name such as `user-events` into a camelCase identifier (`userEvents`).
+ */
+function toIdentifier(name: string): string {
+  return name.replace(/-([a-z0-9])/g, (match, char: string) => char.toUpperCase())
+}
+
+export function decoratorName(pluginName: string): string {
+  return `${toIdentifier(pluginName)}Service`
+}
+
+export function childReadyFlag(childPluginName: string): string {
+  return `${toIdentifier(childPluginName)}Ready`
+}
+
+function hasTracing(resolvedOptions: ResolvedOptions): boolean {
+  return resolvedOptions.tracing === 'console' || resolvedOptions.tracing === 'collector'
+}
+
+function isEsm(resolvedOptions: ResolvedOptions): boolean {
+  return resolvedOptions.moduleSystem === 'esm'
+}
+
+/**
+ * Turns an extensionless relative module path into an import specifier for the chosen module system:
+ * ESM needs the emitted `.js` file, CommonJS resolves `x/index` from the directory alone.
+ */
+function importSpecifier(resolvedOptions: ResolvedOptions, modulePath: string): string {
+  if (isEsm(resolvedOptions)) {
+    return `${modulePath}.js`
+  }
+  return modulePath.endsWith('/index') ? modulePath.slice(0, -'/index'.length) : modulePath
+}
+
+/**
+ * Options the generated app reads at runtime. Follow-ups of a plugin that is off are left out,
+ * since nothing in the app reads them.
+ */
+function listEnvOptions(resolvedOptions: ResolvedOptions): CategoryOption[] {
+  return categories.flatMap((category) => category.options.filter((option) =>
+    option.env !== undefined && (option.when === undefined || resolvedOptions[option.when] === true)))
+}
+
 function buildReadme(
   targetDir: string,
   resolvedOptions: ResolvedOptions,
@@ -343,149 +805,618 @@ function buildReadme(
     '## Project layout',
     '',
     '```',
-    '├── app.ts             # entry point',
+    '├── app.ts             # build() factory, registers plugins and routes',
+    '├── server.ts          # entry point, listens and handles graceful shutdown',
+    '├── config.ts          # runtime configuration from the environment and .env',
+    ...(hasTracing(resolvedOptions) ? ['├── tracing.ts         # OpenTelemetry bootstrap, started by server.ts'] : []),
+    ...(resolvedOptions.database !== 'mongodb' && hasDatabase(resolvedOptions) ? ['├── database.ts        # Knex connection options and migration loading'] : []),
+    ...(hasDatabase(resolvedOptions)
+      ? ['├── migrate.ts         # applies migrations/ (npm run db:migrate, npm run db:rollback)', '├── migrations/        # database migrations, applied in file name order']
+      : []),
+    '├── .env.example       # every configuration variable with its generated default',
+    '├── fastify-new.json   # generator manifest, read by fastify-new upgrade',
+    ...(hasDocker(resolvedOptions) ? ['├── Dockerfile         # multi-stage production image, runs as the node user'] : []),
+    ...(hasDockerCompose(resolvedOptions) ? ['├── docker-compose.yml # the app next to its database (docker compose up --build)'] : []),
     '├── tsconfig.json      # TypeScript configuration',
     '├── plugins/           # shared plugins (decorated on fastify instance)',
-    '│   ├── sensible.ts',
-    '│   └── support.ts',
+    ...buildReadmeTreeEntries('│   ', [
+      ...(resolvedOptions.sensible !== false ? ['sensible.ts'] : []),
+      ...(resolvedOptions.supportPlugin !== false ? ['support.ts'] : []),
+      ...selectedEcosystemPlugins(resolvedOptions).map((plugin) => `${plugin.fileName}.ts`),
+      ...(hasDatabase(resolvedOptions) ? ['database.ts'] : []),
+      ...(hasAuth(resolvedOptions) ? ['auth.ts'] : [])
+    ]),
     '├── routes/            # encapsulated route plugins',
     '│   ├── root.ts',
     '│   └── root/',
     '│       └── index.ts',
     '└── test/',
     '    ├── helper.ts',
-    '    ├── plugins/',
-    '    │   └── support.test.ts',
+    ...buildReadmeTestPluginEntries(resolvedOptions),
     '    └── routes/',
     '        └── root.test.ts',
     '```',
     '',
-    '## Resolved setup',
-    '```json',
-    JSON.stringify({ options: resolvedOptions, pluginScaffolds }, null, 2),
-    '```',
+    '## Configuration',
+    '',
+    'Every setup option can be changed at runtime through an environment variable or `.env`',
+    '(copy `.env.example` to get started). `config.ts` validates the values on startup.',
+    '',
+    ...buildReadmePluginSection(pluginScaffolds),
+    '## Upgrading',
+    '',
+    '`fastify-new.json` records the options and plugins this project was generated with, and the files as generated.',
+    'Run `fastify-new upgrade` to render them with a newer fastify-new: your edits are merged in, and conflicting',
+    'changes are left between `<<<<<<<` and `>>>>>>>` markers. Commit before upgrading.',
     ''
   ].join('\n')
 }
 
-export function buildCustomPluginFiles(pluginScaffolds: PluginScaffold[]): GeneratedFile[] {
+function buildReadmeTestPluginEntries(resolvedOptions: ResolvedOptions): string[] {
+  const names = [
+    ...(resolvedOptions.supportPlugin !== false ? ['support.test.ts'] : []),
+    ...selectedEcosystemPlugins(resolvedOptions).map((plugin) => `${plugin.fileName}.test.ts`),
+    ...(hasDatabase(resolvedOptions) ? ['database.test.ts'] : []),
+    ...(hasAuth(resolvedOptions) ? ['auth.test.ts'] : [])
+  ]
+  return names.length === 0 ? [] : ['    ├── plugins/', ...buildReadmeTreeEntries('    │   ', names)]
+}
+
+function buildReadmeTreeEntries(indent: string, names: string[]): string[] {
+  return names.map((name, index) => `${indent}${index === names.length - 1 ? '└──' : '├──'} ${name}`)
+}
+
+function buildReadmePluginSection(pluginScaffolds: PluginScaffold[]): string[] {
+  if (!pluginScaffolds || pluginScaffolds.length === 0) {
+    return []
+  }
+
+  const lines = ['## Scaffolded plugins', '']
+  for (const pluginScaffold of pluginScaffolds) {
+    lines.push(`### ${pluginScaffold.pluginName}`, '')
+    for (const route of pluginScaffold.routes) {
+      lines.push(`- route \`${formatRoute(route)}\``)
+    }
+    for (const resource of pluginScaffold.resources) {
+      lines.push(`- resource \`${formatResource(resource)}\` (list, get, create, update, delete)`)
+    }
+    for (const hook of pluginScaffold.hooks) {
+      lines.push(`- hook \`${formatHook(hook)}\``)
+    }
+    if (pluginScaffold.hasDecorator) {
+      lines.push(`- ${pluginScaffold.decoratorTarget} decorator \`${decoratorName(pluginScaffold.pluginName)}\``)
+    }
+    if (pluginScaffold.childPluginName) {
+      lines.push(`- child plugin \`${pluginScaffold.childPluginName}\``)
+    }
+    lines.push('')
+  }
+  return lines
+}
+
+export function buildCustomPluginFiles(
+  pluginScaffolds: PluginScaffold[],
+  resolvedOptions: ResolvedOptions,
+  templates: TemplateOverrides = {}
+): GeneratedFile[] {
   if (!pluginScaffolds || pluginScaffolds.length === 0) {
     return []
   }
 
   const files: GeneratedFile[] = []
   for (const pluginScaffold of pluginScaffolds) {
-    files.push(...buildPluginFiles(pluginScaffold))
+    files.push(...buildPluginFiles(pluginScaffold, resolvedOptions, templates))
   }
 
   return files
 }
 
-export function buildPluginFiles(pluginScaffold: PluginScaffold): GeneratedFile[] {
+export function buildPluginFiles(
+  pluginScaffold: PluginScaffold,
+  resolvedOptions: ResolvedOptions,
+  templates: TemplateOverrides = {}
+): GeneratedFile[] {
   if (!pluginScaffold) {
     return []
   }
 
-  const pluginRoot = path.posix.join('plugins', pluginScaffold.pluginName)
-  const routeNames = pluginScaffold.routeNames || []
-  const hookNames = pluginScaffold.hookNames || []
+  const pluginName = pluginScaffold.pluginName
+  const pluginRoot = path.posix.join('plugins', pluginName)
+  const routes = pluginScaffold.routes || []
+  const hooks = pluginScaffold.hooks || []
+  const resources = pluginScaffold.resources || []
   const hasDecorator = pluginScaffold.hasDecorator === true
   const childPluginName = pluginScaffold.childPluginName || 'child'
+  const pluginFunction = `${toIdentifier(pluginName)}Plugin`
+  const specifier = (modulePath: string): string => importSpecifier(resolvedOptions, modulePath)
+  const templated = (name: TemplateName, relativePath: string, content: string, item?: Pick<TemplateContext, 'route' | 'hook' | 'resource'>): GeneratedFile => ({
+    relativePath,
+    content: applyTemplate(templates, name, relativePath, content, { options: resolvedOptions, plugin: pluginScaffold, ...item })
+  })
+  const hasProtectedRoutes = routes.some((route) => route.protected)
+  if (hasProtectedRoutes && !hasAuth(resolvedOptions)) {
+    throw new InvalidPluginError(`Plugin "${pluginName}" has protected routes, which need an auth strategy (--auth).`)
+  }
+  // swagger must see the routes registered here and auth must decorate `authenticate`, so both load first
+  const pluginDependencies = [
+    ...(resolvedOptions.swagger === true ? ['swagger'] : []),
+    ...(hasProtectedRoutes ? ['auth'] : [])
+  ]
 
   const indexLines = [
-    "import { FastifyInstance, FastifyPluginOptions } from 'fastify'",
-    '',
-    'export default async function (fastify: FastifyInstance, opts: FastifyPluginOptions): Promise<void> {'
+    "import fp from 'fastify-plugin'",
+    "import { FastifyInstance, FastifyPluginOptions } from 'fastify'"
   ]
 
   if (hasDecorator) {
-    indexLines.push("  import('./decorator').then((mod) => mod.default(fastify))")
+    indexLines.push(`import decorate from '${importSpecifier(resolvedOptions, './decorator')}'`)
+  }
+  for (const hook of hooks) {
+    indexLines.push(`import ${toIdentifier(hook.name)}Hook from '${importSpecifier(resolvedOptions, `./hooks/${hook.name}`)}'`)
+  }
+  for (const route of routes) {
+    indexLines.push(`import ${toIdentifier(route.name)}Route from '${importSpecifier(resolvedOptions, `./routes/${route.name}/index`)}'`)
+  }
+  for (const resource of resources) {
+    indexLines.push(`import ${toIdentifier(resource.name)}Resource from '${importSpecifier(resolvedOptions, `./resources/${resource.name}/index`)}'`)
+  }
+  if (pluginScaffold.childPluginName) {
+    indexLines.push(`import ${toIdentifier(childPluginName)}Plugin from '${importSpecifier(resolvedOptions, `./plugins/${childPluginName}`)}'`)
   }
 
-  for (const hookName of hookNames) {
-    indexLines.push(`  import('./hooks/${hookName}').then((mod) => mod.default(fastify))`)
+  indexLines.push(
+    '',
+    '/**',
+    ` * The ${pluginName} plugin. It is wrapped with fastify-plugin so its decorators are shared`,
+    ' * with the whole application; hooks and routes stay encapsulated under the plugin prefix.',
+    ' */',
+    `async function ${pluginFunction} (fastify: FastifyInstance, opts: FastifyPluginOptions): Promise<void> {`
+  )
+
+  if (hasDecorator) {
+    indexLines.push('  decorate(fastify)')
+  }
+  if (pluginScaffold.childPluginName) {
+    indexLines.push(`  await fastify.register(${toIdentifier(childPluginName)}Plugin)`)
   }
 
-  for (const routeName of routeNames) {
-    indexLines.push(`  fastify.register(import('./routes/${routeName}'), { prefix: '/${routeName}' })`)
+  if (hooks.length > 0 || routes.length > 0 || resources.length > 0) {
+    if (hasDecorator || pluginScaffold.childPluginName) {
+      indexLines.push('')
+    }
+    indexLines.push('  await fastify.register(async function (scoped) {')
+    for (const hook of hooks) {
+      indexLines.push(`    ${toIdentifier(hook.name)}Hook(scoped)`)
+    }
+    for (const route of routes) {
+      indexLines.push(`    await scoped.register(${toIdentifier(route.name)}Route, { prefix: '/${route.name}' })`)
+    }
+    for (const resource of resources) {
+      indexLines.push(`    await scoped.register(${toIdentifier(resource.name)}Resource, { prefix: '/${resource.name}' })`)
+    }
+    indexLines.push('  }, { prefix: opts.prefix })')
   }
 
-  if (pluginScaffold.childPluginName) {
-    indexLines.push(`  fastify.register(import('./plugins/${childPluginName}'))`)
-  }
-
-  if (routeNames.length === 0 && hookNames.length === 0 && !hasDecorator && !pluginScaffold.childPluginName) {
-    indexLines.push('  return')
-  }
-
-  indexLines.push('}', '')
-
-  const files: GeneratedFile[] = [{
-    relativePath: `${pluginRoot}/index.ts`,
-    content: indexLines.join('\n')
-  }]
-
-  for (const routeName of routeNames) {
-    files.push({
-      relativePath: `${pluginRoot}/routes/${routeName}/index.ts`,
-      content: [
-        "import { FastifyInstance, FastifyPluginOptions } from 'fastify'",
-        '',
-        'export default async function (fastify: FastifyInstance, opts: FastifyPluginOptions): Promise<void> {',
-        "  fastify.get('/', async function (request, reply) {",
-        `    return { plugin: '${pluginScaffold.pluginName}', route: '${routeName}' }`,
-        '  })',
-        '}',
-        ''
-      ].join('\n')
-    })
-  }
-
-  for (const hookName of hookNames) {
-    files.push({
-      relativePath: `${pluginRoot}/hooks/${hookName}.ts`,
-      content: [
-        "import { FastifyInstance } from 'fastify'",
-        '',
-        'export default function (fastify: FastifyInstance): void {',
-        "  fastify.addHook('onRequest', async function (request, reply) {})",
-        '}',
-        ''
-      ].join('\n')
-    })
+  indexLines.push(
+    '}',
+    '',
+    `export default fp(${pluginFunction}, {`,
+    `  name: '${pluginName}',`,
+    "  // Names of plugins that must be registered first, e.g. '@fastify/sensible'",
+    `  dependencies: [${pluginDependencies.map((name) => `'${name}'`).join(', ')}]`,
+    '})',
+    ''
+  )
+
+  const files: GeneratedFile[] = [templated('plugin/index.ts', `${pluginRoot}/index.ts`, indexLines.join('\n'))]
+
+  for (const route of routes) {
+    files.push(templated('plugin/route.ts', `${pluginRoot}/routes/${route.name}/index.ts`, buildScaffoldedRoute(pluginName, route, resolvedOptions.swagger === true), { route }))
+  }
+
+  for (const resource of resources) {
+    const resourceRoot = `${pluginRoot}/resources/${resource.name}`
+    files.push(
+      templated('plugin/resource.ts', `${resourceRoot}/index.ts`, buildResourceRoutes(pluginName, resource, specifier, resolvedOptions.swagger === true), { resource }),
+      templated('plugin/resource-schema.ts', `${resourceRoot}/schema.ts`, buildResourceSchema(resource), { resource }),
+      templated('plugin/resource-repository.ts', `${resourceRoot}/repository.ts`, buildResourceRepository(resource, specifier), { resource })
+    )
+  }
+
+  for (const hook of hooks) {
+    files.push(templated('plugin/hook.ts', `${pluginRoot}/hooks/${hook.name}.ts`, buildScaffoldedHook(hook), { hook }))
   }
 
   if (hasDecorator) {
-    files.push({
-      relativePath: `${pluginRoot}/decorator.ts`,
-      content: [
-        "import { FastifyInstance } from 'fastify'",
-        '',
-        'export default function (fastify: FastifyInstance): void {',
-        "  fastify.decorate('" + pluginScaffold.pluginName + "Service', {",
-        '    ping(): string {',
-        "      return 'pong'",
-        '    }',
-        '  })',
-        '}',
-        ''
-      ].join('\n')
-    })
+    files.push(templated(
+      'plugin/decorator.ts',
+      `${pluginRoot}/decorator.ts`,
+      buildScaffoldedDecorator(pluginName, pluginScaffold.decoratorTarget ?? 'instance')
+    ))
   }
 
   if (pluginScaffold.childPluginName) {
-    files.push({
-      relativePath: `${pluginRoot}/plugins/${childPluginName}.ts`,
-      content: [
-        "import { FastifyInstance, FastifyPluginOptions } from 'fastify'",
-        '',
-        'export default async function (fastify: FastifyInstance, opts: FastifyPluginOptions): Promise<void> {',
-        "  fastify.decorate('" + childPluginName + "Ready', true)",
-        '}',
-        ''
-      ].join('\n')
-    })
+    const childFunction = `${toIdentifier(childPluginName)}Plugin`
+    files.push(templated('plugin/child-plugin.ts', `${pluginRoot}/plugins/${childPluginName}.ts`, [
+      "import fp from 'fastify-plugin'",
+      "import { FastifyInstance, FastifyPluginOptions } from 'fastify'",
+      '',
+      ...buildModuleAugmentation('FastifyInstance', [`${childReadyFlag(childPluginName)}: boolean`]),
+      '',
+      `async function ${childFunction} (fastify: FastifyInstance, opts: FastifyPluginOptions): Promise<void> {`,
+      `  fastify.decorate('${childReadyFlag(childPluginName)}', true)`,
+      '}',
+      '',
+      `export default fp(${childFunction}, {`,
+      `  name: '${pluginName}-${childPluginName}',`,
+      `  dependencies: ['${pluginName}']`,
+      '})',
+      ''
+    ].join('\n')))
   }
 
+  files.push(templated('plugin/test.ts', pluginTestPath(pluginName), buildPluginTest(pluginScaffold, resolvedOptions)))
+
   return files
 }
+
+export function pluginTestPath(pluginName: string): string {
+  return `test/plugins/${pluginName}.test.ts`
+}
+
+/**
+ * The plugin decorator, typed through declaration merging. Request and reply decorators
+ * cannot hold a shared object directly, so they expose the service through a getter.
+ */
+function buildScaffoldedDecorator(pluginName: string, target: DecoratorTarget): string {
+  const api = decoratorApis[target]
+  const name = decoratorName(pluginName)
+  const typeName = `${name.charAt(0).toUpperCase()}${name.slice(1)}`
+  const serviceLines = [
+    '  ping(): string {',
+    "    return 'pong'",
+    '  }'
+  ]
+
+  const lines = [
+    "import { FastifyInstance } from 'fastify'",
+    '',
+    `export interface ${typeName} {`,
+    '  ping(): string',
+    '}',
+    '',
+    ...buildModuleAugmentation(api.augments, [`${name}: ${typeName}`]),
+    ''
+  ]
+
+  if (target === 'instance') {
+    lines.push(
+      'export default function (fastify: FastifyInstance): void {',
+      `  fastify.decorate('${name}', {`,
+      ...serviceLines.map((line) => `  ${line}`),
+      '  })',
+      '}',
+      ''
+    )
+    return lines.join('\n')
+  }
+
+  lines.push(
+    `const service: ${typeName} = {`,
+    ...serviceLines,
+    '}',
+    '',
+    'export default function (fastify: FastifyInstance): void {',
+    `  fastify.${api.method}('${name}', {`,
+    '    getter () {',
+    '      return service',
+    '    }',
+    '  })',
+    '}',
+    ''
+  )
+  return lines.join('\n')
+}
+
+/**
+ * `declare module 'fastify'` block adding the given members to one of its interfaces.
+ */
+function buildModuleAugmentation(fastifyInterface: string, members: string[]): string[] {
+  return [
+    "declare module 'fastify' {",
+    `  interface ${fastifyInterface} {`,
+    ...members.map((member) => `    ${member}`),
+    '  }',
+    '}'
+  ]
+}
+
+/**
+ * The OpenAPI summary of a scaffolded route handler, e.g. "List invoices" or "Delete invoices by id".
+ */
+function routeSummary(method: HttpMethod, route: RouteScaffold): string {
+  const verbs: Record<HttpMethod, string> = { GET: route.param ? 'Get' : 'List', POST: 'Create', PUT: 'Replace', PATCH: 'Update', DELETE: 'Delete' }
+  return `${verbs[method]} ${route.name}${route.param ? ` by ${route.param}` : ''}`
+}
+
+/**
+ * One handler per HTTP method, typed through the route generic and validated by JSON Schema:
+ * params when the route has a path parameter, a body for POST/PUT/PATCH, and the 200 reply.
+ */
+function buildScaffoldedRoute(pluginName: string, route: RouteScaffold, documented: boolean): string {
+  const hasBody = route.methods.some((method) => methodsWithBody.includes(method))
+  const routePath = route.param ? `/:${route.param}` : '/'
+
+  const lines = [
+    "import { FastifyPluginAsync } from 'fastify'",
+    ''
+  ]
+
+  if (route.param) {
+    lines.push(
+      'interface RouteParams {',
+      `  ${route.param}: string`,
+      '}',
+      '',
+      'const paramsSchema = {',
+      "  type: 'object',",
+      `  properties: { ${route.param}: { type: 'string' } },`,
+      `  required: ['${route.param}']`,
+      '}',
+      ''
+    )
+  }
+
+  if (hasBody) {
+    lines.push(
+      'interface RouteBody {',
+      '  [key: string]: unknown',
+      '}',
+      '',
+      'const bodySchema = {',
+      "  type: 'object',",
+      '  additionalProperties: true',
+      '}',
+      ''
+    )
+  }
+
+  lines.push(
+    'interface RouteReply {',
+    '  plugin: string',
+    '  route: string',
+    '}',
+    '',
+    'const replySchema = {',
+    "  type: 'object',",
+    '  properties: {',
+    "    plugin: { type: 'string' },",
+    "    route: { type: 'string' }",
+    '  },',
+    "  required: ['plugin', 'route']",
+    '}',
+    '',
+    'const route: FastifyPluginAsync = async (fastify) => {'
+  )
+
+  route.methods.forEach((method, index) => {
+    const withBody = methodsWithBody.includes(method)
+    const generic = [
+      route.param ? 'Params: RouteParams' : '',
+      withBody ? 'Body: RouteBody' : '',
+      'Reply: RouteReply'
+    ].filter(Boolean).join(', ')
+    const schema = [
+      documented ? `tags: ['${pluginName}']` : '',
+      documented ? `summary: ${toStringLiteral(routeSummary(method, route))}` : '',
+      route.param ? 'params: paramsSchema' : '',
+      withBody ? 'body: bodySchema' : '',
+      'response: { 200: replySchema }'
+    ].filter(Boolean)
+
+    if (index > 0) {
+      lines.push('')
+    }
+    lines.push(
+      `  fastify.${method.toLowerCase()}<{ ${generic} }>('${routePath}', {`,
+      ...(route.protected ? ['    onRequest: [fastify.authenticate],'] : []),
+      '    schema: {',
+      ...schema.map((line, lineIndex) => `      ${line}${lineIndex < schema.length - 1 ? ',' : ''}`),
+      '    }',
+      '  }, async function (request, reply) {',
+      `    return { plugin: '${pluginName}', route: '${route.name}' }`,
+      '  })'
+    )
+  })
+
+  lines.push(
+    '}',
+    '',
+    'export default route',
+    ''
+  )
+  return lines.join('\n')
+}
+
+function buildScaffoldedHook(hook: HookScaffold): string {
+  const signature = hookSignatures[hook.event]
+  const handler = `async function (${signature.params}): ${signature.returnType}`
+
+  return [
+    `import { ${['FastifyInstance', ...signature.imports].join(', ')} } from 'fastify'`,
+    '',
+    'export default function (fastify: FastifyInstance): void {',
+    `  fastify.addHook('${hook.event}', ${handler} {`,
+    `    ${signature.log}.debug({ hook: '${hook.name}' }, '${hook.event} hook')`,
+    ...signature.body.map((line) => `    ${line}`),
+    '  })',
+    '}',
+    ''
+  ].join('\n')
+}
+
+/**
+ * How a generated hook test makes its lifecycle event fire on a bare Fastify instance.
+ */
+function buildHookTrigger(event: HookEvent): string[] {
+  if (event === 'onReady') {
+    return ['  await app.ready()']
+  }
+  if (event === 'onClose') {
+    return ['  await app.close()']
+  }
+  if (event === 'onError') {
+    return [
+      "  app.get('/', async function () {",
+      "    throw new Error('boom')",
+      '  })',
+      "  await app.inject({ method: 'GET', url: '/' })"
+    ]
+  }
+  if (event === 'onTimeout') {
+    // inject() has no socket to time out, so this one needs a real connection.
+    return [
+      "  app.get('/', async function () {",
+      '    return await new Promise((resolve) => setTimeout(resolve, 500, { ok: true }))',
+      '  })',
+      "  const address = await app.listen({ port: 0, host: '127.0.0.1' })",
+      '  await new Promise<void>((resolve) => {',
+      "    http.get(address).on('error', () => resolve())",
+      '  })'
+    ]
+  }
+  return [
+    "  app.get('/', async function () {",
+    '    return { ok: true }',
+    '  })',
+    "  await app.inject({ method: 'GET', url: '/' })"
+  ]
+}
+
+/**
+ * A node:test file covering what the wizard scaffolded for one plugin: its registration and
+ * decorators through the whole app, each route through inject(), and each hook on its own.
+ */
+function buildPluginTest(pluginScaffold: PluginScaffold, resolvedOptions: ResolvedOptions): string {
+  const pluginName = pluginScaffold.pluginName
+  const routes = pluginScaffold.routes || []
+  const hooks = pluginScaffold.hooks || []
+  const auth = routes.some((route) => route.protected)
+    ? authTestHeaders(resolvedOptions, (modulePath) => importSpecifier(resolvedOptions, modulePath))
+    : undefined
+
+  const lines: string[] = []
+  if (hooks.some((hook) => hook.event === 'onTimeout')) {
+    lines.push("import http from 'node:http'")
+  }
+  lines.push(
+    "import { test } from 'node:test'",
+    "import assert from 'node:assert'"
+  )
+  if (hooks.length > 0) {
+    lines.push(
+      "import type { TestContext } from 'node:test'",
+      "import Fastify, { FastifyInstance } from 'fastify'"
+    )
+  }
+  lines.push(`import { buildApp } from '${importSpecifier(resolvedOptions, '../helper')}'`, ...auth?.imports ?? [])
+  for (const hook of hooks) {
+    lines.push(`import ${toIdentifier(hook.name)}Hook from '${importSpecifier(resolvedOptions, `../../plugins/${pluginName}/hooks/${hook.name}`)}'`)
+  }
+
+  if (hooks.length > 0) {
+    lines.push(
+      '',
+      '/**',
+      ' * A bare Fastify instance that records which hooks logged, so each hook can be checked on its own.',
+      ' */',
+      'function buildObservedInstance (t: TestContext, opts: { connectionTimeout?: number } = {}): { app: FastifyInstance, hooksRun: string[] } {',
+      '  const hooksRun: string[] = []',
+      '  const app = Fastify({',
+      '    ...opts,',
+      '    logger: {',
+      "      level: 'debug',",
+      '      stream: {',
+      '        write (line: string) {',
+      '          const entry = JSON.parse(line) as { hook?: string }',
+      '          if (entry.hook) {',
+      '            hooksRun.push(entry.hook)',
+      '          }',
+      '        }',
+      '      }',
+      '    }',
+      '  })',
+      '  t.after(() => app.close())',
+      '  return { app, hooksRun }',
+      '}'
+    )
+  }
+
+  lines.push(
+    '',
+    `test('${pluginName} plugin is registered', async (t) => {`,
+    '  const app = await buildApp(t)',
+    `  assert.ok(app.hasPlugin('${pluginName}'))`
+  )
+  if (pluginScaffold.hasDecorator) {
+    const name = decoratorName(pluginName)
+    if (pluginScaffold.decoratorTarget === 'request') {
+      lines.push(`  assert.ok(app.hasRequestDecorator('${name}'))`)
+    } else if (pluginScaffold.decoratorTarget === 'reply') {
+      lines.push(`  assert.ok(app.hasReplyDecorator('${name}'))`)
+    } else {
+      lines.push(`  assert.strictEqual(app.${name}.ping(), 'pong')`)
+    }
+  }
+  if (pluginScaffold.childPluginName) {
+    lines.push(`  assert.strictEqual(app.${childReadyFlag(pluginScaffold.childPluginName)}, true)`)
+  }
+  lines.push('})')
+
+  for (const route of routes) {
+    const url = `/${pluginName}/${route.name}${route.param ? '/1' : ''}`
+    lines.push(
+      '',
+      `test('${pluginName} route ${formatRoute(route)}', async (t) => {`,
+      '  const app = await buildApp(t)'
+    )
+    for (const method of route.methods) {
+      const response = `${method.toLowerCase()}Response`
+      const payload = methodsWithBody.includes(method) ? ', payload: {}' : ''
+      const headers = route.protected ? `, headers: ${auth!.headers}` : ''
+      lines.push('')
+      if (route.protected) {
+        lines.push(
+          `  const ${method.toLowerCase()}Unauthorized = await app.inject({ method: '${method}', url: '${url}'${payload} })`,
+          `  assert.strictEqual(${method.toLowerCase()}Unauthorized.statusCode, 401)`
+        )
+      }
+      lines.push(
+        `  const ${response} = await app.inject({ method: '${method}', url: '${url}'${payload}${headers} })`,
+        `  assert.strictEqual(${response}.statusCode, 200)`,
+        `  assert.deepStrictEqual(${response}.json(), { plugin: '${pluginName}', route: '${route.name}' })`
+      )
+    }
+    lines.push('})')
+  }
+
+  for (const resource of pluginScaffold.resources || []) {
+    lines.push(...buildResourceTestLines(pluginName, resource))
+  }
+
+  for (const hook of hooks) {
+    const observedOptions = hook.event === 'onTimeout' ? ', { connectionTimeout: 50 }' : ''
+    lines.push(
+      '',
+      `test('${pluginName} hook ${hook.name} runs on ${hook.event}', async (t) => {`,
+      `  const { app, hooksRun } = buildObservedInstance(t${observedOptions})`,
+      `  ${toIdentifier(hook.name)}Hook(app)`,
+      ...buildHookTrigger(hook.event),
+      `  assert.deepStrictEqual(hooksRun, ['${hook.name}'])`,
+      '})'
+    )
+  }
+
+  lines.push('')
+  return lines.join('\n')
+}
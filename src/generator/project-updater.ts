@@ -0,0 +1,434 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type {
+  DecoratorTarget,
+  GeneratedFile,
+  HookEvent,
+  HookScaffold,
+  HttpMethod,
+  PluginScaffold,
+  ResolvedOptions,
+  ResourceField,
+  ResourceFieldType,
+  ResourceScaffold,
+  RouteScaffold
+} from '../types'
+import { decoratorTargets, hookEvents, reservedPluginNames, resourceFieldTypes, toPluginScaffolds } from '../prompts/plugin-wizard'
+import { InvalidPluginError, MergeConflictError, ProjectNotFoundError } from '../errors'
+import { markConflict, mergeThreeWay } from '../utils/merge'
+import { isValidScaffoldName, reservedPluginNameMessage } from '../utils/validation'
+import { formatManifest, generatorVersion, isRecordedFile, manifestFileName, readManifest, resolveManifestOptions } from './manifest'
+import { buildPluginFiles, buildProjectFiles, pluginTestPath } from './project-generator'
+import type { TemplateOverrides } from './templates'
+
+export const addKinds = ['plugin', 'route', 'hook', 'decorator', 'resource'] as const
+
+export type AddKind = typeof addKinds[number]
+
+export interface AddRequest {
+  kind: AddKind
+  pluginName: string
+  itemName: string | undefined
+  /** Route methods; defaults to GET. */
+  methods?: HttpMethod[]
+  /** Optional route path parameter. */
+  param?: string
+  /** Puts the route behind `fastify.authenticate`; the project needs an auth strategy. */
+  protected?: boolean
+  /** Hook lifecycle event; defaults to onRequest. */
+  event?: HookEvent
+  /** Decorator target; defaults to instance. */
+  target?: DecoratorTarget
+  /** Resource fields; required for resources. */
+  fields?: ResourceField[]
+  /**
+   * Plugin template overrides; defaults to the ones recorded in the manifest, which then records these instead.
+   * Templates see the options recorded in the manifest. In projects without one, only `options.moduleSystem`,
+   * `options.swagger` and `options.auth` are known.
+   */
+  templates?: TemplateOverrides
+}
+
+export interface AddResult {
+  created: string[]
+  updated: string[]
+}
+
+/**
+ * Adds a plugin, or a route/hook/decorator/resource to a plugin, inside an already generated project.
+ * Existing files are never overwritten; the plugin `index.ts` and its test file are merged so user edits are kept,
+ * against the content recorded in the manifest, or in projects without one, a render of the plugin read off disk.
+ * Nothing is written unless every file can be created or merged cleanly.
+ */
+export function addToProject(projectDir: string, request: AddRequest): AddResult {
+  const absoluteProject = path.resolve(process.cwd(), projectDir)
+  if (!fs.existsSync(path.join(absoluteProject, 'package.json')) || !fs.existsSync(path.join(absoluteProject, 'plugins'))) {
+    throw new ProjectNotFoundError(`No generated Fastify project found in ${absoluteProject} (expected package.json and plugins/).`)
+  }
+
+  for (const name of [request.pluginName, request.itemName]) {
+    if (name !== undefined && !isValidScaffoldName(name)) {
+      throw new InvalidPluginError(`Invalid name "${name}". Use lowercase letters, numbers, and single dashes between them; must start with a letter.`)
+    }
+  }
+
+  if (reservedPluginNames.includes(request.pluginName)) {
+    throw new InvalidPluginError(reservedPluginNameMessage(request.pluginName))
+  }
+
+  // The manifest records the scaffolds and files as generated; only projects without one are parsed off disk.
+  const manifest = readManifest(absoluteProject)
+  const existing = manifest
+    ? toPluginScaffolds(manifest.pluginScaffolds).find((scaffold) => scaffold.pluginName === request.pluginName)
+    : readPluginScaffold(absoluteProject, request.pluginName)
+  if (request.kind === 'plugin' && existing) {
+    throw new InvalidPluginError(`Plugin "${request.pluginName}" already exists.`)
+  }
+
+  const templates = request.templates ?? manifest?.templates
+  const projectOptions = manifest ? resolveManifestOptions(manifest) : readProjectOptions(absoluteProject)
+  const nextScaffold = applyAddition(existing ?? emptyScaffold(request.pluginName), request)
+  const baseFiles = manifest
+    ? new Map(Object.entries(manifest.files))
+    : new Map((existing ? buildPluginFiles(existing, projectOptions, templates) : []).map((file) => [file.relativePath, file.content]))
+  const mergedPaths = new Set([path.posix.join('plugins', request.pluginName, 'index.ts'), pluginTestPath(request.pluginName)])
+
+  const writes: GeneratedFile[] = []
+  const result: AddResult = { created: [], updated: [] }
+
+  const nextFiles = buildPluginFiles(nextScaffold, projectOptions, templates)
+  for (const file of nextFiles) {
+    const absolutePath = path.join(absoluteProject, file.relativePath)
+
+    if (mergedPaths.has(file.relativePath) && existing) {
+      // A test file the user deleted stays deleted.
+      if (!fs.existsSync(absolutePath)) {
+        continue
+      }
+      const baseContent = baseFiles.get(file.relativePath)
+      const merged = baseContent === undefined ? undefined : mergeThreeWay(baseContent, fs.readFileSync(absolutePath, 'utf8'), file.content)
+      if (!merged || merged.conflicts > 0) {
+        throw new MergeConflictError(`Could not merge ${file.relativePath} automatically. Add this to it by hand:\n${file.content}`)
+      }
+      writes.push({ relativePath: file.relativePath, content: merged.content })
+      result.updated.push(file.relativePath)
+      continue
+    }
+
+    // Files of items that were already scaffolded belong to the user now.
+    if (baseFiles.has(file.relativePath)) {
+      continue
+    }
+
+    if (fs.existsSync(absolutePath)) {
+      throw new MergeConflictError(`Refusing to overwrite existing file: ${file.relativePath}`)
+    }
+    writes.push(file)
+    result.created.push(file.relativePath)
+  }
+
+  // The manifest records the plugin and the files as generated, so a later upgrade merges against them.
+  if (manifest) {
+    manifest.templates = templates
+    for (const relativePath of [...result.created, ...result.updated]) {
+      manifest.files[relativePath] = nextFiles.find((file) => file.relativePath === relativePath)!.content
+    }
+    manifest.pluginScaffolds = [
+      ...manifest.pluginScaffolds.filter((scaffold) => scaffold.pluginName !== nextScaffold.pluginName),
+      nextScaffold
+    ]
+    writes.push({ relativePath: manifestFileName, content: formatManifest(manifest) })
+  }
+
+  writeFiles(absoluteProject, writes)
+  return result
+}
+
+export interface UpgradeRequest {
+  /** Template overrides; defaults to the ones recorded in the manifest. */
+  templates?: TemplateOverrides
+  /** Report what would change without writing anything. */
+  dryRun?: boolean
+}
+
+export interface UpgradeResult {
+  fromVersion: string
+  toVersion: string
+  created: string[]
+  updated: string[]
+  /** Files written with conflict markers around the lines that could not be merged. */
+  conflicted: string[]
+}
+
+/**
+ * Renders the project again from its manifest with this version of the generator and three-way merges
+ * every file: the base is the content recorded in the manifest, "yours" the file on disk, "theirs" the new render.
+ * Files you deleted stay deleted and `.env` is never touched. The manifest then records the new render.
+ */
+export function upgradeProject(projectDir: string, request: UpgradeRequest = {}): UpgradeResult {
+  const absoluteProject = path.resolve(process.cwd(), projectDir)
+  const manifest = readManifest(absoluteProject)
+  if (!manifest) {
+    throw new ProjectNotFoundError(`No ${manifestFileName} found in ${absoluteProject}. Only projects generated with a manifest can be upgraded.`)
+  }
+
+  const resolvedOptions = resolveManifestOptions(manifest)
+  const pluginScaffolds = toPluginScaffolds(manifest.pluginScaffolds)
+  const files = buildProjectFiles(absoluteProject, resolvedOptions, pluginScaffolds, request.templates ?? manifest.templates)
+
+  const writes: GeneratedFile[] = []
+  const result: UpgradeResult = { fromVersion: manifest.generatorVersion, toVersion: generatorVersion, created: [], updated: [], conflicted: [] }
+
+  for (const file of files.filter((candidate) => isRecordedFile(candidate.relativePath))) {
+    const absolutePath = path.join(absoluteProject, file.relativePath)
+    const baseContent = manifest.files[file.relativePath] as string | undefined
+
+    if (!fs.existsSync(absolutePath)) {
+      // A file that was generated before and is gone now was deleted on purpose.
+      if (baseContent === undefined) {
+        writes.push(file)
+        result.created.push(file.relativePath)
+      }
+      continue
+    }
+
+    const currentContent = fs.readFileSync(absolutePath, 'utf8')
+    if (currentContent === file.content) {
+      continue
+    }
+    // The project has a file of its own where the new version generates one: there is nothing to merge against.
+    if (baseContent === undefined) {
+      writes.push({ relativePath: file.relativePath, content: `${markConflict(toLines(currentContent), toLines(file.content)).join('\n')}\n` })
+      result.conflicted.push(file.relativePath)
+      continue
+    }
+
+    const merged = mergeThreeWay(baseContent, currentContent, file.content)
+    if (merged.content === currentContent) {
+      continue
+    }
+    writes.push({ relativePath: file.relativePath, content: merged.content })
+    if (merged.conflicts > 0) {
+      result.conflicted.push(file.relativePath)
+    } else {
+      result.updated.push(file.relativePath)
+    }
+  }
+
+  if (!request.dryRun) {
+    // The new manifest records the new render as the base of the next upgrade.
+    writeFiles(absoluteProject, [...writes, files.find((file) => file.relativePath === manifestFileName)!])
+  }
+  return result
+}
+
+/** The lines of a file, without the empty one after its final newline. */
+function toLines(content: string): string[] {
+  return content.replace(/\n$/, '').split('\n')
+}
+
+function writeFiles(projectDir: string, files: GeneratedFile[]): void {
+  for (const file of files) {
+    const absolutePath = path.join(projectDir, file.relativePath)
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true })
+    fs.writeFileSync(absolutePath, file.content)
+  }
+}
+
+/**
+ * Rebuilds the scaffold of an existing plugin from the files on disk.
+ * Routes and hooks keep the order in which the plugin index references them.
+ */
+export function readPluginScaffold(projectDir: string, pluginName: string): PluginScaffold | undefined {
+  const pluginDir = path.join(projectDir, 'plugins', pluginName)
+  const indexFile = path.join(pluginDir, 'index.ts')
+  if (!fs.existsSync(indexFile)) {
+    return undefined
+  }
+
+  const indexContent = fs.readFileSync(indexFile, 'utf8')
+  const byIndexOrder = (kind: string) => (left: string, right: string): number =>
+    referenceOrder(indexContent, kind, left) - referenceOrder(indexContent, kind, right) ||
+    left.localeCompare(right)
+
+  const routes = listEntries(path.join(pluginDir, 'routes'))
+    .filter((entry) => fs.existsSync(path.join(pluginDir, 'routes', entry, 'index.ts')))
+    .sort(byIndexOrder('routes'))
+    .map((name) => readRouteScaffold(path.join(pluginDir, 'routes', name, 'index.ts'), name))
+  const hooks = listEntries(path.join(pluginDir, 'hooks'))
+    .filter((entry) => entry.endsWith('.ts'))
+    .map((entry) => entry.slice(0, -'.ts'.length))
+    .sort(byIndexOrder('hooks'))
+    .map((name) => readHookScaffold(path.join(pluginDir, 'hooks', `${name}.ts`), name))
+  const resources = listEntries(path.join(pluginDir, 'resources'))
+    .filter((entry) => fs.existsSync(path.join(pluginDir, 'resources', entry, 'index.ts')))
+    .sort(byIndexOrder('resources'))
+    .map((name) => readResourceScaffold(path.join(pluginDir, 'resources', name, 'schema.ts'), name))
+  const decoratorFile = path.join(pluginDir, 'decorator.ts')
+  const childPluginName = listEntries(path.join(pluginDir, 'plugins'))
+    .filter((entry) => entry.endsWith('.ts'))
+    .map((entry) => entry.slice(0, -'.ts'.length))[0]
+
+  return {
+    pluginName,
+    routes,
+    hooks,
+    resources,
+    hasDecorator: fs.existsSync(decoratorFile),
+    decoratorTarget: readDecoratorTarget(decoratorFile),
+    childPluginName,
+    additions: []
+  }
+}
+
+/**
+ * For projects generated before manifests existed: recovers the setup options that affect plugin code
+ * from the project's package.json and plugins.
+ */
+function readProjectOptions(projectDir: string): ResolvedOptions {
+  const packageJson = JSON.parse(fs.readFileSync(path.join(projectDir, 'package.json'), 'utf8')) as { type?: string }
+  return {
+    moduleSystem: packageJson.type === 'module' ? 'esm' : 'commonjs',
+    swagger: fs.existsSync(path.join(projectDir, 'plugins', 'swagger.ts')),
+    auth: readAuthStrategy(path.join(projectDir, 'plugins', 'auth.ts'))
+  }
+}
+
+/**
+ * Recovers the auth strategy from what the auth plugin checks, which decides how tests authenticate.
+ */
+function readAuthStrategy(authFile: string): string {
+  if (!fs.existsSync(authFile)) {
+    return 'none'
+  }
+  const content = fs.readFileSync(authFile, 'utf8')
+  return content.includes('jwtVerify') ? 'jwt' : content.includes('x-api-key') ? 'api-key' : 'basic'
+}
+
+function applyAddition(scaffold: PluginScaffold, request: AddRequest): PluginScaffold {
+  const next: PluginScaffold = {
+    ...scaffold,
+    routes: [...scaffold.routes],
+    hooks: [...scaffold.hooks],
+    resources: [...scaffold.resources]
+  }
+
+  if ((request.kind === 'route' || request.kind === 'hook' || request.kind === 'resource') && !request.itemName) {
+    throw new InvalidPluginError(`Missing ${request.kind} name.`)
+  }
+
+  // Routes and resources share the URL space under the plugin prefix
+  if (request.kind === 'route' || request.kind === 'resource') {
+    const taken = next.routes.some((route) => route.name === request.itemName)
+      ? 'Route'
+      : next.resources.some((resource) => resource.name === request.itemName) ? 'Resource' : undefined
+    if (taken) {
+      throw new InvalidPluginError(`${taken} "${request.itemName}" already exists for plugin "${scaffold.pluginName}".`)
+    }
+  }
+
+  if (request.kind === 'route') {
+    next.routes.push({ name: request.itemName!, methods: request.methods ?? ['GET'], param: request.param, protected: request.protected === true })
+  }
+
+  if (request.kind === 'resource') {
+    if (!request.fields || request.fields.length === 0) {
+      throw new InvalidPluginError('Missing resource fields.')
+    }
+    next.resources.push({ name: request.itemName!, fields: request.fields })
+  }
+
+  if (request.kind === 'hook') {
+    if (next.hooks.some((hook) => hook.name === request.itemName)) {
+      throw new InvalidPluginError(`Hook "${request.itemName}" already exists for plugin "${scaffold.pluginName}".`)
+    }
+    next.hooks.push({ name: request.itemName!, event: request.event ?? 'onRequest' })
+  }
+
+  if (request.kind === 'decorator') {
+    if (next.hasDecorator) {
+      throw new InvalidPluginError(`Decorator already exists for plugin "${scaffold.pluginName}".`)
+    }
+    next.hasDecorator = true
+    next.decoratorTarget = request.target ?? 'instance'
+  }
+
+  return next
+}
+
+function emptyScaffold(pluginName: string): PluginScaffold {
+  return {
+    pluginName,
+    routes: [],
+    hooks: [],
+    resources: [],
+    hasDecorator: false,
+    decoratorTarget: 'instance',
+    childPluginName: undefined,
+    additions: []
+  }
+}
+
+/**
+ * Recovers methods, path parameter and protection from a scaffolded route file; falls back to GET.
+ */
+function readRouteScaffold(routeFile: string, name: string): RouteScaffold {
+  const content = fs.readFileSync(routeFile, 'utf8')
+  const methods: HttpMethod[] = []
+  for (const match of content.matchAll(/fastify\.(get|post|put|patch|delete)\s*[<(]/g)) {
+    const method = match[1].toUpperCase() as HttpMethod
+    if (!methods.includes(method)) {
+      methods.push(method)
+    }
+  }
+  const param = /'\/:([A-Za-z_][A-Za-z0-9_]*)'/.exec(content)?.[1]
+  return { name, methods: methods.length > 0 ? methods : ['GET'], param, protected: content.includes('fastify.authenticate') }
+}
+
+/**
+ * Recovers the fields from the `fields` object of a scaffolded resource schema; fields of other types are skipped.
+ */
+function readResourceScaffold(schemaFile: string, name: string): ResourceScaffold {
+  const content = fs.existsSync(schemaFile) ? fs.readFileSync(schemaFile, 'utf8') : ''
+  const fieldsBlock = /const fields = \{\n([\s\S]*?)\n\}/.exec(content)?.[1] ?? ''
+  const fields: ResourceField[] = []
+  for (const match of fieldsBlock.matchAll(/^\s*([A-Za-z_][A-Za-z0-9_]*): \{ type: '(\w+)' \}/gm)) {
+    if (resourceFieldTypes.includes(match[2] as ResourceFieldType)) {
+      fields.push({ name: match[1], type: match[2] as ResourceFieldType })
+    }
+  }
+  return { name, fields }
+}
+
+/**
+ * Recovers the lifecycle event from a scaffolded hook file; falls back to onRequest.
+ */
+function readHookScaffold(hookFile: string, name: string): HookScaffold {
+  const event = /addHook\('(\w+)'/.exec(fs.readFileSync(hookFile, 'utf8'))?.[1] as HookEvent | undefined
+  return { name, event: event && hookEvents.includes(event) ? event : 'onRequest' }
+}
+
+/**
+ * Recovers the decorator target from the Fastify method the decorator file calls; falls back to instance.
+ */
+function readDecoratorTarget(decoratorFile: string): DecoratorTarget {
+  if (!fs.existsSync(decoratorFile)) {
+    return 'instance'
+  }
+  const method = /\.decorate(Request|Reply)?\(/.exec(fs.readFileSync(decoratorFile, 'utf8'))?.[1]
+  const target = (method ?? 'instance').toLowerCase() as DecoratorTarget
+  return decoratorTargets.includes(target) ? target : 'instance'
+}
+
+function listEntries(dir: string): string[] {
+  return fs.existsSync(dir) ? fs.readdirSync(dir) : []
+}
+
+/**
+ * Position of the first import of `./<kind>/<name>` in either module format
+ * (`./routes/x`, `./routes/x/index.js`, `./hooks/x.js`).
+ */
+function referenceOrder(content: string, kind: string, name: string): number {
+  const match = new RegExp(`'\\./${kind}/${name}['/.]`).exec(content)
+  return match ? match.index : Number.MAX_SAFE_INTEGER
+}
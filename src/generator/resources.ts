@@ -0,0 +1,294 @@
+import type { ResourceField, ResourceFieldType, ResourceScaffold } from '../types'
+import type { ImportSpecifier } from './ecosystem-plugins'
+
+const fieldTypes: Record<ResourceFieldType, { sample: string, changed: string }> = {
+  string: { sample: "'sample'", changed: "'changed'" },
+  number: { sample: '1', changed: '2' },
+  boolean: { sample: 'true', changed: 'false' }
+}
+
+/**
+ * Routes for one resource, mounted at `/<name>`: list and create on `/`, get, update (PATCH) and delete on `/:id`.
+ */
+export function buildResourceRoutes(pluginName: string, resource: ResourceScaffold, specifier: ImportSpecifier, documented: boolean): string {
+  const typeName = resourceTypeName(resource)
+  const label = resourceLabel(resource)
+  const schemaFor = (summary: string, schema: string[]): string[] => [
+    '    schema: {',
+    ...[
+      ...(documented ? [`tags: ['${pluginName}']`, `summary: '${summary}'`] : []),
+      ...schema
+    ].map((line, index, all) => `      ${line}${index < all.length - 1 ? ',' : ''}`),
+    '    }'
+  ]
+
+  return [
+    "import { FastifyPluginAsync } from 'fastify'",
+    `import { create${typeName}Repository } from '${specifier('./repository')}'`,
+    'import {',
+    `  ${typeName},`,
+    `  ${typeName}Input,`,
+    `  ${schemaName(resource)},`,
+    '  createBodySchema,',
+    '  notFoundSchema,',
+    '  paramsSchema,',
+    '  updateBodySchema',
+    `} from '${specifier('./schema')}'`,
+    '',
+    'interface ItemParams {',
+    '  id: number',
+    '}',
+    '',
+    'interface NotFound {',
+    '  message: string',
+    '}',
+    '',
+    'function notFound (id: number): NotFound {',
+    `  return { message: \`${capitalize(label)} \${id} not found\` }`,
+    '}',
+    '',
+    '/**',
+    ` * CRUD routes for ${resource.name}. Each registration gets its own repository, so every app (and test) starts empty.`,
+    ' */',
+    'const resource: FastifyPluginAsync = async (fastify) => {',
+    `  const repository = create${typeName}Repository()`,
+    '',
+    `  fastify.get<{ Reply: ${typeName}[] }>('/', {`,
+    ...schemaFor(`List ${resource.name.replace(/-/g, ' ')}`, [`response: { 200: { type: 'array', items: ${schemaName(resource)} } }`]),
+    '  }, async function () {',
+    '    return await repository.list()',
+    '  })',
+    '',
+    `  fastify.get<{ Params: ItemParams, Reply: { 200: ${typeName}, 404: NotFound } }>('/:id', {`,
+    ...schemaFor(`Get ${label} by id`, ['params: paramsSchema', `response: { 200: ${schemaName(resource)}, 404: notFoundSchema }`]),
+    '  }, async function (request, reply) {',
+    '    const item = await repository.get(request.params.id)',
+    '    if (!item) {',
+    '      return await reply.code(404).send(notFound(request.params.id))',
+    '    }',
+    '    return item',
+    '  })',
+    '',
+    `  fastify.post<{ Body: ${typeName}Input, Reply: { 201: ${typeName} } }>('/', {`,
+    ...schemaFor(`Create ${label}`, ['body: createBodySchema', `response: { 201: ${schemaName(resource)} }`]),
+    '  }, async function (request, reply) {',
+    '    reply.code(201)',
+    '    return await repository.create(request.body)',
+    '  })',
+    '',
+    `  fastify.patch<{ Params: ItemParams, Body: Partial<${typeName}Input>, Reply: { 200: ${typeName}, 404: NotFound } }>('/:id', {`,
+    ...schemaFor(`Update ${label} by id`, ['params: paramsSchema', 'body: updateBodySchema', `response: { 200: ${schemaName(resource)}, 404: notFoundSchema }`]),
+    '  }, async function (request, reply) {',
+    '    const item = await repository.update(request.params.id, request.body)',
+    '    if (!item) {',
+    '      return await reply.code(404).send(notFound(request.params.id))',
+    '    }',
+    '    return item',
+    '  })',
+    '',
+    "  fastify.delete<{ Params: ItemParams, Reply: { 204: undefined, 404: NotFound } }>('/:id', {",
+    ...schemaFor(`Delete ${label} by id`, ['params: paramsSchema', 'response: { 404: notFoundSchema }']),
+    '  }, async function (request, reply) {',
+    '    if (!await repository.delete(request.params.id)) {',
+    '      return await reply.code(404).send(notFound(request.params.id))',
+    '    }',
+    '    return await reply.code(204).send()',
+    '  })',
+    '}',
+    '',
+    'export default resource',
+    ''
+  ].join('\n')
+}
+
+/**
+ * The resource type and the JSON Schemas derived from its fields. The schemas validate requests
+ * and serialize replies, so the interface and `fields` must change together.
+ */
+export function buildResourceSchema(resource: ResourceScaffold): string {
+  const typeName = resourceTypeName(resource)
+  const required = resource.fields.map((field) => `'${field.name}'`).join(', ')
+
+  return [
+    `export interface ${typeName} {`,
+    '  id: number',
+    ...resource.fields.map((field) => `  ${field.name}: ${field.type}`),
+    '}',
+    '',
+    `export type ${typeName}Input = Omit<${typeName}, 'id'>`,
+    '',
+    'const fields = {',
+    ...resource.fields.map((field, index) => `  ${field.name}: { type: '${field.type}' }${index < resource.fields.length - 1 ? ',' : ''}`),
+    '}',
+    '',
+    `export const ${schemaName(resource)} = {`,
+    "  type: 'object',",
+    "  properties: { id: { type: 'integer' }, ...fields },",
+    `  required: ['id', ${required}]`,
+    '}',
+    '',
+    '/** Create requests send every field. */',
+    'export const createBodySchema = {',
+    "  type: 'object',",
+    '  properties: fields,',
+    `  required: [${required}],`,
+    '  additionalProperties: false',
+    '}',
+    '',
+    '/** Update requests send the fields to change. */',
+    'export const updateBodySchema = {',
+    "  type: 'object',",
+    '  properties: fields,',
+    '  minProperties: 1,',
+    '  additionalProperties: false',
+    '}',
+    '',
+    'export const paramsSchema = {',
+    "  type: 'object',",
+    "  properties: { id: { type: 'integer' } },",
+    "  required: ['id']",
+    '}',
+    '',
+    'export const notFoundSchema = {',
+    "  type: 'object',",
+    "  properties: { message: { type: 'string' } },",
+    "  required: ['message']",
+    '}',
+    ''
+  ].join('\n')
+}
+
+/**
+ * An in-memory repository behind an async interface, so it can be swapped for one backed by a database
+ * without touching the routes.
+ */
+export function buildResourceRepository(resource: ResourceScaffold, specifier: ImportSpecifier): string {
+  const typeName = resourceTypeName(resource)
+
+  return [
+    `import type { ${typeName}, ${typeName}Input } from '${specifier('./schema')}'`,
+    '',
+    `export interface ${typeName}Repository {`,
+    `  list(): Promise<${typeName}[]>`,
+    `  get(id: number): Promise<${typeName} | undefined>`,
+    `  create(input: ${typeName}Input): Promise<${typeName}>`,
+    `  update(id: number, changes: Partial<${typeName}Input>): Promise<${typeName} | undefined>`,
+    '  delete(id: number): Promise<boolean>',
+    '}',
+    '',
+    '/**',
+    ` * Keeps ${resource.name} in memory: they are lost on restart and not shared between instances.`,
+    ` * Implement \`${typeName}Repository\` on top of a database to keep them.`,
+    ' */',
+    `export function create${typeName}Repository (): ${typeName}Repository {`,
+    `  const items = new Map<number, ${typeName}>()`,
+    '  let nextId = 1',
+    '',
+    '  return {',
+    '    async list () {',
+    '      return [...items.values()]',
+    '    },',
+    '    async get (id) {',
+    '      return items.get(id)',
+    '    },',
+    '    async create (input) {',
+    '      const item = { ...input, id: nextId++ }',
+    '      items.set(item.id, item)',
+    '      return item',
+    '    },',
+    '    async update (id, changes) {',
+    '      const item = items.get(id)',
+    '      if (!item) {',
+    '        return undefined',
+    '      }',
+    '      const updated = { ...item, ...changes, id }',
+    '      items.set(id, updated)',
+    '      return updated',
+    '    },',
+    '    async delete (id) {',
+    '      return items.delete(id)',
+    '    }',
+    '  }',
+    '}',
+    ''
+  ].join('\n')
+}
+
+/**
+ * One test walking a resource through create, list, get, update and delete, plus a rejected body.
+ */
+export function buildResourceTestLines(pluginName: string, resource: ResourceScaffold): string[] {
+  const url = `/${pluginName}/${resource.name}`
+  const [firstField] = resource.fields
+
+  return [
+    '',
+    `test('${pluginName} resource /${resource.name}', async (t) => {`,
+    '  const app = await buildApp(t)',
+    '',
+    `  const createResponse = await app.inject({ method: 'POST', url: '${url}', payload: ${fieldValues(resource.fields, 'sample')} })`,
+    '  assert.strictEqual(createResponse.statusCode, 201)',
+    '  const created = createResponse.json()',
+    `  assert.deepStrictEqual(created, { ...${fieldValues(resource.fields, 'sample')}, id: created.id })`,
+    '',
+    `  const listResponse = await app.inject({ method: 'GET', url: '${url}' })`,
+    '  assert.deepStrictEqual(listResponse.json(), [created])',
+    '',
+    `  const getResponse = await app.inject({ method: 'GET', url: \`${url}/\${created.id}\` })`,
+    '  assert.deepStrictEqual(getResponse.json(), created)',
+    '',
+    `  const updateResponse = await app.inject({ method: 'PATCH', url: \`${url}/\${created.id}\`, payload: ${fieldValues([firstField], 'changed')} })`,
+    '  assert.strictEqual(updateResponse.statusCode, 200)',
+    `  assert.deepStrictEqual(updateResponse.json(), { ...created, ...${fieldValues([firstField], 'changed')} })`,
+    '',
+    `  const invalidResponse = await app.inject({ method: 'POST', url: '${url}', payload: {} })`,
+    '  assert.strictEqual(invalidResponse.statusCode, 400)',
+    '',
+    `  const deleteResponse = await app.inject({ method: 'DELETE', url: \`${url}/\${created.id}\` })`,
+    '  assert.strictEqual(deleteResponse.statusCode, 204)',
+    `  const missingResponse = await app.inject({ method: 'GET', url: \`${url}/\${created.id}\` })`,
+    '  assert.strictEqual(missingResponse.statusCode, 404)',
+    '})'
+  ]
+}
+
+/**
+ * The singular PascalCase type name of a resource, e.g. `Task` for `tasks` or `BlogEntry` for `blog-entries`.
+ */
+export function resourceTypeName(resource: ResourceScaffold): string {
+  return singular(resource.name)
+    .split('-')
+    .map((word) => capitalize(word))
+    .join('')
+}
+
+function resourceLabel(resource: ResourceScaffold): string {
+  return singular(resource.name).replace(/-/g, ' ')
+}
+
+function schemaName(resource: ResourceScaffold): string {
+  const typeName = resourceTypeName(resource)
+  return `${typeName.charAt(0).toLowerCase()}${typeName.slice(1)}Schema`
+}
+
+/** English plural rules good enough for resource names; names that do not look plural are kept. */
+function singular(name: string): string {
+  if (/ies$/.test(name)) {
+    return name.replace(/ies$/, 'y')
+  }
+  if (/(s|x|z|ch|sh)es$/.test(name)) {
+    return name.replace(/es$/, '')
+  }
+  if (/[^s]s$/.test(name)) {
+    return name.slice(0, -1)
+  }
+  return name
+}
+
+function capitalize(word: string): string {
+  return `${word.charAt(0).toUpperCase()}${word.slice(1)}`
+}
+
+function fieldValues(fields: ResourceField[], value: 'sample' | 'changed'): string {
+  return `{ ${fields.map((field) => `${field.name}: ${fieldTypes[field.type][value]}`).join(', ')} }`
+}
@@ -0,0 +1,158 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { HookScaffold, PluginScaffold, ResolvedOptions, ResourceScaffold, RouteScaffold } from '../types'
+import { TemplateError } from '../errors'
+
+/** Project files, named after their path in the generated project. */
+export const projectTemplateNames = [
+  'package.json',
+  'tsconfig.json',
+  'app.ts',
+  'server.ts',
+  'config.ts',
+  'tracing.ts',
+  'database.ts',
+  'migrate.ts',
+  'migrations/0001_create_examples.ts',
+  'plugins/sensible.ts',
+  'plugins/support.ts',
+  'plugins/cors.ts',
+  'plugins/helmet.ts',
+  'plugins/rate-limit.ts',
+  'plugins/cookie.ts',
+  'plugins/jwt.ts',
+  'plugins/multipart.ts',
+  'plugins/static.ts',
+  'plugins/compress.ts',
+  'plugins/swagger.ts',
+  'plugins/health.ts',
+  'plugins/metrics.ts',
+  'plugins/database.ts',
+  'plugins/auth.ts',
+  'public/robots.txt',
+  'routes/root.ts',
+  'routes/root/index.ts',
+  'test/helper.ts',
+  'test/plugins/support.test.ts',
+  'test/plugins/cors.test.ts',
+  'test/plugins/helmet.test.ts',
+  'test/plugins/rate-limit.test.ts',
+  'test/plugins/cookie.test.ts',
+  'test/plugins/jwt.test.ts',
+  'test/plugins/multipart.test.ts',
+  'test/plugins/static.test.ts',
+  'test/plugins/compress.test.ts',
+  'test/plugins/swagger.test.ts',
+  'test/plugins/health.test.ts',
+  'test/plugins/metrics.test.ts',
+  'test/plugins/database.test.ts',
+  'test/plugins/auth.test.ts',
+  'test/routes/root.test.ts',
+  '.gitignore',
+  '.env',
+  '.env.example',
+  'Dockerfile',
+  '.dockerignore',
+  'docker-compose.yml',
+  'README.md'
+] as const
+
+/** Files generated once per scaffolded plugin, route, hook or resource. */
+export const pluginTemplateNames = [
+  'plugin/index.ts',
+  'plugin/route.ts',
+  'plugin/hook.ts',
+  'plugin/decorator.ts',
+  'plugin/child-plugin.ts',
+  'plugin/resource.ts',
+  'plugin/resource-schema.ts',
+  'plugin/resource-repository.ts',
+  'plugin/test.ts'
+] as const
+
+export type TemplateName = typeof projectTemplateNames[number] | typeof pluginTemplateNames[number]
+
+export const templateNames: TemplateName[] = [...projectTemplateNames, ...pluginTemplateNames]
+
+/** Template sources that replace the built-in content, by template name. */
+export type TemplateOverrides = Partial<Record<TemplateName, string>>
+
+/**
+ * What a template can reference as `{{ path.to.value }}`. `default` is the built-in content,
+ * so an override can wrap it (e.g. add a header) instead of rewriting it.
+ */
+export interface TemplateContext {
+  options: ResolvedOptions
+  plugin?: PluginScaffold
+  route?: RouteScaffold
+  hook?: HookScaffold
+  resource?: ResourceScaffold
+}
+
+/**
+ * Reads every file under `templatesDir` as an override; the relative path is the template name.
+ */
+export function loadTemplateOverrides(templatesDir: string): TemplateOverrides {
+  if (!fs.existsSync(templatesDir) || !fs.statSync(templatesDir).isDirectory()) {
+    throw new TemplateError(`Templates directory not found: ${templatesDir}`)
+  }
+
+  const overrides: TemplateOverrides = {}
+  for (const relativePath of listFiles(templatesDir, '')) {
+    if (!templateNames.includes(relativePath as TemplateName)) {
+      throw new TemplateError(`Unknown template "${relativePath}" in ${templatesDir}. Known templates: ${templateNames.join(', ')}.`)
+    }
+    overrides[relativePath as TemplateName] = fs.readFileSync(path.join(templatesDir, relativePath), 'utf8')
+  }
+  return overrides
+}
+
+/**
+ * Returns the built-in content, or the override rendered with the context, the file `path` and the `default` content.
+ */
+export function applyTemplate(
+  templates: TemplateOverrides,
+  name: TemplateName,
+  relativePath: string,
+  defaultContent: string,
+  context: TemplateContext
+): string {
+  const source = templates[name]
+  if (source === undefined) {
+    return defaultContent
+  }
+  return renderTemplate(name, source, { ...context, path: relativePath, default: defaultContent })
+}
+
+/**
+ * Replaces `{{ a.b }}` with the value at that path. Unset values render as an empty string,
+ * objects as JSON; an unknown path is an error so typos do not go unnoticed.
+ */
+function renderTemplate(name: TemplateName, source: string, context: Record<string, unknown>): string {
+  return source.replace(/\{\{\s*([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*\}\}/g, (match, variable: string) => {
+    let value: unknown = context
+    for (const key of variable.split('.')) {
+      if (value === null || typeof value !== 'object' || !(key in value)) {
+        throw new TemplateError(`Unknown template variable "${variable}" in template "${name}".`)
+      }
+      value = (value as Record<string, unknown>)[key]
+    }
+    if (value === undefined || value === null) {
+      return ''
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  })
+}
+
+function listFiles(rootDir: string, relativeDir: string): string[] {
+  const files: string[] = []
+  for (const entry of fs.readdirSync(path.join(rootDir, relativeDir), { withFileTypes: true })) {
+    const relativePath = path.posix.join(relativeDir, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...listFiles(rootDir, relativePath))
+    } else {
+      files.push(relativePath)
+    }
+  }
+  return files
+}
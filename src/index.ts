@@ -0,0 +1,72 @@
+import type { FileSystemAdapter, GeneratedFile, PluginSpec } from './types'
+import { resolveOptionsFromAnswers } from './prompts/setup'
+import { toPluginScaffolds } from './prompts/plugin-wizard'
+import path from 'node:path'
+import { buildProjectFiles, writeProjectFiles } from './generator/project-generator'
+import { loadTemplateOverrides, type TemplateOverrides } from './generator/templates'
+
+export type {
+  DecoratorTarget,
+  FileSystemAdapter,
+  GeneratedFile,
+  HookEvent,
+  HttpMethod,
+  PluginSpec,
+  ProjectManifest,
+  ResolvedOptions,
+  ResourceFieldType,
+  SetupPreset
+} from './types'
+export * from './errors'
+export { createMemoryFileSystem, nodeFileSystem, type MemoryFileSystem } from './utils/file-system'
+export { builtinPresets, loadPresetsFile, mergePresets } from './prompts/presets'
+export { templateNames, type TemplateName, type TemplateOverrides } from './generator/templates'
+
+export interface CreateProjectOptions {
+  /** Directory to create. It must not exist yet; a relative path resolves against `cwd`. */
+  targetDir: string
+  /**
+   * Setup answers keyed by option key (`logLevel`) or flag name (`log-level`),
+   * with the same value rules as the CLI flags. Options left out keep their defaults.
+   */
+  options?: Record<string, unknown>
+  /** Plugins to scaffold, as the CLI wizard would. */
+  plugins?: PluginSpec[]
+  /**
+   * Template overrides by template name, or a directory holding them (relative to `cwd`,
+   * always read from the real filesystem). Templates see `{{ options.* }}`, `{{ plugin.* }}`,
+   * `{{ path }}` and `{{ default }}`, the built-in content.
+   */
+  templates?: string | TemplateOverrides
+  /** Where to write; defaults to the real filesystem. */
+  fs?: FileSystemAdapter
+  /** Base directory for a relative `targetDir`; defaults to `process.cwd()`. */
+  cwd?: string
+  /** Build and return the files without writing anything. */
+  dryRun?: boolean
+  /** Aborting stops the write and removes everything written so far. */
+  signal?: AbortSignal
+}
+
+/**
+ * Generates a Fastify project and returns its files, paths relative to `targetDir`.
+ * Writes are atomic: the target directory is either complete or absent.
+ * Prints nothing and never exits the process; failures reject with a `GenerationError` subclass.
+ */
+export async function createProject(createOptions: CreateProjectOptions): Promise<GeneratedFile[]> {
+  const resolvedOptions = resolveOptionsFromAnswers(createOptions.options ?? {})
+  const pluginScaffolds = toPluginScaffolds(createOptions.plugins ?? [])
+  const templates = typeof createOptions.templates === 'string'
+    ? loadTemplateOverrides(path.resolve(createOptions.cwd ?? process.cwd(), createOptions.templates))
+    : createOptions.templates
+  const files = buildProjectFiles(createOptions.targetDir, resolvedOptions, pluginScaffolds, templates)
+
+  if (!createOptions.dryRun) {
+    await writeProjectFiles(createOptions.targetDir, files, {
+      fs: createOptions.fs,
+      cwd: createOptions.cwd,
+      signal: createOptions.signal
+    })
+  }
+  return files
+}
@@ -0,0 +1,64 @@
+import { stdout } from 'node:process'
+import type { GeneratedFile } from '../types'
+import { colorize } from '../utils/colors'
+
+interface TreeNode {
+  children: Map<string, TreeNode>
+  size: number | undefined
+}
+
+/**
+ * Prints the file tree a generation would create, with sizes, and optionally every file's content.
+ */
+export function printFilePreview(targetDir: string, files: GeneratedFile[], showContent: boolean): void {
+  const root: TreeNode = { children: new Map(), size: undefined }
+  for (const file of files) {
+    const parts = file.relativePath.split('/')
+    let node = root
+    for (const part of parts.slice(0, -1)) {
+      if (!node.children.has(part)) {
+        node.children.set(part, { children: new Map(), size: undefined })
+      }
+      node = node.children.get(part)!
+    }
+    node.children.set(parts[parts.length - 1], { children: new Map(), size: Buffer.byteLength(file.content) })
+  }
+
+  const totalSize = files.reduce((sum, file) => sum + Buffer.byteLength(file.content), 0)
+  stdout.write(`${colorize('Files to create:', 'cyan')}\n`)
+  stdout.write(`${colorize(`${targetDir}/`, 'bold')}\n`)
+  printTreeNode(root, '')
+  stdout.write(`${colorize(`${files.length} files, ${formatSize(totalSize)}`, 'gray')}\n`)
+
+  if (!showContent) {
+    return
+  }
+  for (const file of files) {
+    stdout.write(`\n${colorize(`--- ${file.relativePath} ---`, 'cyan')}\n`)
+    stdout.write(file.content.endsWith('\n') ? file.content : `${file.content}\n`)
+  }
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`
+}
+
+/**
+ * Directories first, then files, each sorted by name (like `tree --dirsfirst`).
+ */
+function printTreeNode(node: TreeNode, indent: string): void {
+  const entries = [...node.children.entries()].sort(([leftName, left], [rightName, right]) =>
+    Number(left.size !== undefined) - Number(right.size !== undefined) || leftName.localeCompare(rightName)
+  )
+
+  entries.forEach(([name, child], index) => {
+    const isLast = index === entries.length - 1
+    const branch = isLast ? '└── ' : '├── '
+    if (child.size === undefined) {
+      stdout.write(`${indent}${branch}${name}/\n`)
+      printTreeNode(child, `${indent}${isLast ? '    ' : '│   '}`)
+    } else {
+      stdout.write(`${indent}${branch}${name} ${colorize(`(${formatSize(child.size)})`, 'gray')}\n`)
+    }
+  })
+}
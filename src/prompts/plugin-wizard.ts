@@ -1,19 +1,118 @@
 import { stdout } from 'node:process'
 import type { Interface as ReadlineInterface } from 'node:readline/promises'
-import type { PluginScaffold } from '../types'
+import type {
+  DecoratorTarget,
+  HookEvent,
+  HookScaffold,
+  HttpMethod,
+  PluginScaffold,
+  PluginSpec,
+  ResourceField,
+  ResourceFieldType,
+  ResourceScaffold,
+  RouteScaffold
+} from '../types'
+import { InvalidPluginError } from '../errors'
 import { colorize } from '../utils/colors'
-import { askChoice, askPluginName } from '../utils/io'
+import { askChoice, askInput, askPluginName } from '../utils/io'
+import { isValidScaffoldName, reservedPluginNameMessage } from '../utils/validation'
+import { ecosystemPlugins } from '../generator/ecosystem-plugins'
 
-const pluginMenuChoices = ['Route', 'Hook', 'Decorator', 'Child plugin', 'Done']
+const pluginMenuChoices = ['Route', 'Hook', 'Decorator', 'Child plugin', 'Resource', 'Done']
 
-export async function runPluginScaffoldWizard(rl: ReadlineInterface): Promise<PluginScaffold[]> {
-  const pluginScaffolds: PluginScaffold[] = []
+/**
+ * Built-in plugins, whatever the options: a scaffolded plugin with one of these names would share
+ * `test/plugins/<name>.test.ts` with it, and autoload `plugins/<name>/` next to `plugins/<name>.ts`.
+ */
+export const reservedPluginNames = ['sensible', 'support', ...ecosystemPlugins.map((plugin) => plugin.fileName), 'database', 'auth']
+
+export const routeMethods: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+/**
+ * Parses a comma-separated list of HTTP methods (case-insensitive, duplicates removed).
+ */
+export function parseRouteMethods(raw: string): HttpMethod[] {
+  const methods: HttpMethod[] = []
+  for (const part of raw.split(',')) {
+    const method = part.trim().toUpperCase()
+    if (method === '') {
+      continue
+    }
+    if (!routeMethods.includes(method as HttpMethod)) {
+      throw new InvalidPluginError(`Unsupported HTTP method: ${part.trim()}. Use ${routeMethods.join(', ')}.`)
+    }
+    if (!methods.includes(method as HttpMethod)) {
+      methods.push(method as HttpMethod)
+    }
+  }
+  if (methods.length === 0) {
+    throw new InvalidPluginError(`Choose at least one HTTP method: ${routeMethods.join(', ')}.`)
+  }
+  return methods
+}
+
+export const resourceFieldTypes: ResourceFieldType[] = ['string', 'number', 'boolean']
+
+/**
+ * Parses a comma-separated field list such as `title:string, done:boolean`; the type defaults to string.
+ */
+export function parseResourceFields(raw: string): ResourceField[] {
+  const fields: ResourceField[] = []
+  for (const part of raw.split(',')) {
+    if (part.trim() === '') {
+      continue
+    }
+    const [name, type = 'string', extra] = part.split(':').map((piece) => piece.trim())
+    const problem = resourceFieldProblem({ name, type: type as ResourceFieldType }, fields)
+    if (problem || extra !== undefined) {
+      throw new InvalidPluginError(problem ?? `Invalid field "${part.trim()}". Use name:type.`)
+    }
+    fields.push({ name, type: type as ResourceFieldType })
+  }
+  if (fields.length === 0) {
+    throw new InvalidPluginError('Give at least one field, e.g. title:string, done:boolean.')
+  }
+  return fields
+}
+
+export const hookEvents: HookEvent[] = [
+  'onRequest',
+  'preParsing',
+  'preValidation',
+  'preHandler',
+  'preSerialization',
+  'onSend',
+  'onResponse',
+  'onError',
+  'onTimeout',
+  'onReady',
+  'onClose'
+]
+
+export const decoratorTargets: DecoratorTarget[] = ['instance', 'request', 'reply']
+
+export function isValidRouteParam(param: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(param)
+}
+
+/**
+ * Asks for plugins to scaffold and returns them after `initialScaffolds` (e.g. a preset's plugins),
+ * whose names cannot be reused. With `withAuth`, each route can be marked protected.
+ */
+export async function runPluginScaffoldWizard(
+  rl: ReadlineInterface,
+  initialScaffolds: PluginScaffold[] = [],
+  withAuth = false
+): Promise<PluginScaffold[]> {
+  const pluginScaffolds: PluginScaffold[] = [...initialScaffolds]
 
   while (true) {
     let pluginName: string | undefined
-    const routeNames: string[] = []
-    const hookNames: string[] = []
+    const routes: RouteScaffold[] = []
+    const hooks: HookScaffold[] = []
+    const resources: ResourceScaffold[] = []
     let hasDecorator = false
+    let decoratorTarget: DecoratorTarget = 'instance'
     let childPluginName: string | undefined
 
     while (true) {
@@ -26,8 +125,12 @@ export async function runPluginScaffoldWizard(rl: ReadlineInterface): Promise<Pl
         break
       }
 
-      if (!pluginName) {
-        pluginName = await askPluginName(rl, 'Plugin name')
+      while (!pluginName) {
+        pluginName = await askPluginName(rl, 'Plugin name', reservedPluginNames)
+        if (pluginScaffolds.some((pluginScaffold) => pluginScaffold.pluginName === pluginName)) {
+          stdout.write(`${colorize(`Plugin "${pluginName}" already exists.`, 'yellow')}\n`)
+          pluginName = undefined
+        }
       }
 
       if (selected === 'Child plugin') {
@@ -54,32 +157,51 @@ export async function runPluginScaffoldWizard(rl: ReadlineInterface): Promise<Pl
           continue
         }
 
+        decoratorTarget = await askChoice(rl, 'Decorator target:', decoratorTargets) as DecoratorTarget
         hasDecorator = true
-        stdout.write(`${colorize('Added: Decorator', 'green')}\n`)
+        stdout.write(`${colorize(`Added: Decorator (${decoratorTarget})`, 'green')}\n`)
         continue
       }
 
       if (selected === 'Route') {
         const routeName = await askPluginName(rl, 'Route name')
-        if (routeNames.includes(routeName)) {
-          stdout.write(`${colorize(`Route "${routeName}" already exists for this plugin.`, 'yellow')}\n`)
+        if (routes.some((route) => route.name === routeName) || resources.some((resource) => resource.name === routeName)) {
+          stdout.write(`${colorize(`Route or resource "${routeName}" already exists for this plugin.`, 'yellow')}\n`)
+          continue
+        }
+
+        const methods = await askRouteMethods(rl)
+        const param = await askRouteParam(rl)
+        const isProtected = withAuth && await askChoice(rl, 'Require authentication?', ['No', 'Yes']) === 'Yes'
+        const route = { name: routeName, methods, param, protected: isProtected }
+        routes.push(route)
+        stdout.write(`${colorize(`Added: Route (${formatRoute(route)})`, 'green')}\n`)
+        continue
+      }
+
+      if (selected === 'Resource') {
+        const resourceName = await askPluginName(rl, 'Resource name (plural, e.g. tasks)')
+        if (routes.some((route) => route.name === resourceName) || resources.some((resource) => resource.name === resourceName)) {
+          stdout.write(`${colorize(`Route or resource "${resourceName}" already exists for this plugin.`, 'yellow')}\n`)
           continue
         }
 
-        routeNames.push(routeName)
-        stdout.write(`${colorize(`Added: Route (${routeName})`, 'green')}\n`)
+        const fields = await askResourceFields(rl)
+        resources.push({ name: resourceName, fields })
+        stdout.write(`${colorize(`Added: Resource (${formatResource({ name: resourceName, fields })})`, 'green')}\n`)
         continue
       }
 
       if (selected === 'Hook') {
         const hookName = await askPluginName(rl, 'Hook name')
-        if (hookNames.includes(hookName)) {
+        if (hooks.some((hook) => hook.name === hookName)) {
           stdout.write(`${colorize(`Hook "${hookName}" already exists for this plugin.`, 'yellow')}\n`)
           continue
         }
 
-        hookNames.push(hookName)
-        stdout.write(`${colorize(`Added: Hook (${hookName})`, 'green')}\n`)
+        const event = await askChoice(rl, 'Lifecycle event:', hookEvents) as HookEvent
+        hooks.push({ name: hookName, event })
+        stdout.write(`${colorize(`Added: Hook (${formatHook({ name: hookName, event })})`, 'green')}\n`)
         continue
       }
     }
@@ -90,9 +212,11 @@ export async function runPluginScaffoldWizard(rl: ReadlineInterface): Promise<Pl
 
     pluginScaffolds.push({
       pluginName,
-      routeNames,
-      hookNames,
+      routes,
+      hooks,
+      resources,
       hasDecorator,
+      decoratorTarget,
       childPluginName,
       additions: []
     })
@@ -115,14 +239,17 @@ export function printPluginScaffoldSummary(pluginScaffolds: PluginScaffold[]): v
   stdout.write(`${colorize('Plugin scaffolds:', 'cyan')}\n`)
   for (const pluginScaffold of pluginScaffolds) {
     const additions: string[] = []
-    if (pluginScaffold.routeNames.length > 0) {
-      additions.push(`routes x${pluginScaffold.routeNames.length}`)
+    if (pluginScaffold.routes.length > 0) {
+      additions.push(`routes x${pluginScaffold.routes.length}`)
+    }
+    if (pluginScaffold.hooks.length > 0) {
+      additions.push(`hooks x${pluginScaffold.hooks.length}`)
     }
-    if (pluginScaffold.hookNames.length > 0) {
-      additions.push(`hooks x${pluginScaffold.hookNames.length}`)
+    if (pluginScaffold.resources.length > 0) {
+      additions.push(`resources x${pluginScaffold.resources.length}`)
     }
     if (pluginScaffold.hasDecorator) {
-      additions.push('decorator')
+      additions.push(`decorator (${pluginScaffold.decoratorTarget})`)
     }
     if (pluginScaffold.childPluginName) {
       additions.push('child plugin')
@@ -136,13 +263,181 @@ export function printPluginScaffoldSummary(pluginScaffolds: PluginScaffold[]): v
     if (pluginScaffold.childPluginName) {
       stdout.write(`  ${colorize('child plugin', 'bold')}: ${pluginScaffold.childPluginName}\n`)
     }
-    if (pluginScaffold.routeNames.length > 0) {
-      stdout.write(`  ${colorize('routes', 'bold')}: ${pluginScaffold.routeNames.map((name) => `/${name}`).join(', ')}\n`)
+    if (pluginScaffold.routes.length > 0) {
+      stdout.write(`  ${colorize('routes', 'bold')}: ${pluginScaffold.routes.map(formatRoute).join(', ')}\n`)
     }
-    if (pluginScaffold.hookNames.length > 0) {
-      stdout.write(`  ${colorize('hooks', 'bold')}: ${pluginScaffold.hookNames.join(', ')}\n`)
+    if (pluginScaffold.hooks.length > 0) {
+      stdout.write(`  ${colorize('hooks', 'bold')}: ${pluginScaffold.hooks.map(formatHook).join(', ')}\n`)
+    }
+    if (pluginScaffold.resources.length > 0) {
+      stdout.write(`  ${colorize('resources', 'bold')}: ${pluginScaffold.resources.map(formatResource).join(', ')}\n`)
     }
   }
 
   stdout.write('\n')
 }
+
+export function formatRoute(route: RouteScaffold): string {
+  const routePath = route.param ? `/${route.name}/:${route.param}` : `/${route.name}`
+  return `${routePath} [${route.methods.join(', ')}]${route.protected ? ' (protected)' : ''}`
+}
+
+export function formatHook(hook: HookScaffold): string {
+  return `${hook.name} (${hook.event})`
+}
+
+export function formatResource(resource: ResourceScaffold): string {
+  return `/${resource.name} (${resource.fields.map((field) => `${field.name}:${field.type}`).join(', ')})`
+}
+
+async function askRouteMethods(rl: ReadlineInterface): Promise<HttpMethod[]> {
+  while (true) {
+    const answer = await askInput(rl, `HTTP methods (comma separated: ${routeMethods.join(', ')})`, 'GET')
+    try {
+      return parseRouteMethods(answer)
+    } catch (err) {
+      stdout.write(`${colorize((err as Error).message, 'yellow')}\n`)
+    }
+  }
+}
+
+async function askRouteParam(rl: ReadlineInterface): Promise<string | undefined> {
+  while (true) {
+    const answer = await askInput(rl, 'Path parameter (optional, e.g. id)', undefined)
+    if (answer === '') {
+      return undefined
+    }
+    if (isValidRouteParam(answer)) {
+      return answer
+    }
+    stdout.write(`${colorize('Use letters, numbers, and underscores only; must not start with a number.', 'yellow')}\n`)
+  }
+}
+
+async function askResourceFields(rl: ReadlineInterface): Promise<ResourceField[]> {
+  while (true) {
+    const answer = await askInput(rl, `Fields (comma separated name:type, types: ${resourceFieldTypes.join(', ')})`, undefined)
+    try {
+      return parseResourceFields(answer)
+    } catch (err) {
+      stdout.write(`${colorize((err as Error).message, 'yellow')}\n`)
+    }
+  }
+}
+
+/**
+ * Why `field` cannot be added after `existing`, or undefined when it can.
+ * `id` is reserved: every resource gets a numeric one.
+ */
+function resourceFieldProblem(field: ResourceField, existing: ResourceField[]): string | undefined {
+  if (!isValidRouteParam(field.name)) {
+    return `Invalid field name "${field.name}". Use letters, numbers, and underscores only; must not start with a number.`
+  }
+  if (field.name === 'id') {
+    return 'The "id" field is added automatically.'
+  }
+  if (!resourceFieldTypes.includes(field.type)) {
+    return `Unsupported type "${field.type}" for field "${field.name}". Use ${resourceFieldTypes.join(', ')}.`
+  }
+  if (existing.some((other) => other.name === field.name)) {
+    return `Field "${field.name}" is listed twice.`
+  }
+  return undefined
+}
+
+/**
+ * Fills in plugin defaults and applies the wizard's naming rules.
+ */
+export function toPluginScaffolds(plugins: PluginSpec[]): PluginScaffold[] {
+  const pluginNames = new Set<string>()
+
+  return plugins.map((plugin) => {
+    const pluginName = plugin.pluginName
+    assertScaffoldName(pluginName, 'plugin')
+    if (reservedPluginNames.includes(pluginName)) {
+      throw new InvalidPluginError(reservedPluginNameMessage(pluginName))
+    }
+    if (pluginNames.has(pluginName)) {
+      throw new InvalidPluginError(`Plugin "${pluginName}" is listed twice.`)
+    }
+    pluginNames.add(pluginName)
+
+    const routes = (plugin.routes ?? []).map((route) => {
+      assertScaffoldName(route.name, 'route')
+      const methods = route.methods ?? ['GET']
+      const unsupported = methods.find((method) => !routeMethods.includes(method))
+      if (methods.length === 0 || unsupported) {
+        throw new InvalidPluginError(`Route "${route.name}" needs methods from: ${routeMethods.join(', ')}.`)
+      }
+      if (route.param !== undefined && !isValidRouteParam(route.param)) {
+        throw new InvalidPluginError(`Invalid path parameter "${route.param}" for route "${route.name}".`)
+      }
+      return { name: route.name, methods: [...new Set(methods)], param: route.param, protected: route.protected === true }
+    })
+    const hooks = (plugin.hooks ?? []).map((hook) => {
+      assertScaffoldName(hook.name, 'hook')
+      const event = hook.event ?? 'onRequest'
+      if (!hookEvents.includes(event)) {
+        throw new InvalidPluginError(`Invalid event "${event}" for hook "${hook.name}". Expected one of: ${hookEvents.join(', ')}.`)
+      }
+      return { name: hook.name, event }
+    })
+    const resources = (plugin.resources ?? []).map((resource) => {
+      assertScaffoldName(resource.name, 'resource')
+      const fields: ResourceField[] = []
+      for (const field of resource.fields ?? []) {
+        const next = { name: field.name, type: field.type ?? 'string' }
+        const problem = resourceFieldProblem(next, fields)
+        if (problem) {
+          throw new InvalidPluginError(`Resource "${resource.name}": ${problem}`)
+        }
+        fields.push(next)
+      }
+      if (fields.length === 0) {
+        throw new InvalidPluginError(`Resource "${resource.name}" needs at least one field.`)
+      }
+      return { name: resource.name, fields }
+    })
+    assertUniqueNames(routes, 'Route', pluginName)
+    assertUniqueNames(hooks, 'Hook', pluginName)
+    assertUniqueNames([...routes, ...resources], 'Route or resource', pluginName)
+
+    const decoratorTarget = plugin.decoratorTarget ?? 'instance'
+    if (!decoratorTargets.includes(decoratorTarget)) {
+      throw new InvalidPluginError(`Invalid decorator target "${decoratorTarget}". Expected one of: ${decoratorTargets.join(', ')}.`)
+    }
+    if (plugin.childPluginName !== undefined) {
+      assertScaffoldName(plugin.childPluginName, 'child plugin')
+      if (plugin.childPluginName === pluginName) {
+        throw new InvalidPluginError('Child plugin name must be different from the parent plugin name.')
+      }
+    }
+
+    return {
+      pluginName,
+      routes,
+      hooks,
+      resources,
+      hasDecorator: plugin.hasDecorator === true,
+      decoratorTarget,
+      childPluginName: plugin.childPluginName,
+      additions: []
+    }
+  })
+}
+
+function assertScaffoldName(name: string, kind: string): void {
+  if (!isValidScaffoldName(name)) {
+    throw new InvalidPluginError(`Invalid ${kind} name "${name}". Use lowercase letters, numbers, and single dashes between them; must start with a letter.`)
+  }
+}
+
+function assertUniqueNames(items: Array<{ name: string }>, kind: string, pluginName: string): void {
+  const seen = new Set<string>()
+  for (const item of items) {
+    if (seen.has(item.name)) {
+      throw new InvalidPluginError(`${kind} "${item.name}" already exists for plugin "${pluginName}".`)
+    }
+    seen.add(item.name)
+  }
+}
@@ -0,0 +1,105 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { PluginSpec, SetupPreset } from '../types'
+import { resolveOptionsFromAnswers } from './setup'
+import { toPluginScaffolds } from './plugin-wizard'
+import { isValidScaffoldName } from '../utils/validation'
+import { PresetsFileError } from '../errors'
+
+export const builtinPresets: SetupPreset[] = [
+  {
+    key: 'minimal',
+    name: 'Minimal',
+    description: 'only the app, the root route and its test',
+    options: { sensible: false, supportPlugin: false },
+    plugins: []
+  },
+  {
+    key: 'rest-api',
+    name: 'REST API',
+    description: 'CORS, helmet, OpenAPI docs and a sample CRUD plugin',
+    options: { logLevel: 'info', cors: true, helmet: true, swagger: true },
+    plugins: [{
+      pluginName: 'catalog',
+      routes: [
+        { name: 'products', methods: ['GET', 'POST'], param: undefined, protected: false },
+        { name: 'product', methods: ['GET', 'PUT', 'DELETE'], param: 'id', protected: false }
+      ],
+      hooks: [],
+      resources: [],
+      hasDecorator: false,
+      decoratorTarget: 'instance',
+      childPluginName: undefined,
+      additions: []
+    }]
+  },
+  {
+    key: 'microservice',
+    name: 'Internal microservice',
+    description: 'listens on all interfaces, trusts private-network proxies only, health probes and metrics',
+    options: {
+      host: '0.0.0.0',
+      logLevel: 'info',
+      trustProxyIps: '10.0.0.0/8,172.16.0.0/12,192.168.0.0/16',
+      supportPlugin: false,
+      healthChecks: true,
+      metrics: true
+    },
+    plugins: []
+  }
+]
+
+/**
+ * Loads team presets from a JSON file shaped like `{ "presets": [{ key, name, description, options, plugins }] }`.
+ * `plugins` entries use the `createProject` plugin format. Options and plugins are validated up front.
+ */
+export function loadPresetsFile(filePath: string): SetupPreset[] {
+  const absolutePath = path.resolve(process.cwd(), filePath)
+  if (!fs.existsSync(absolutePath)) {
+    throw new PresetsFileError(`Presets file not found: ${filePath}`)
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(fs.readFileSync(absolutePath, 'utf8'))
+  } catch (err) {
+    throw new PresetsFileError(`Presets file is not valid JSON: ${filePath} (${err instanceof Error ? err.message : String(err)})`)
+  }
+
+  const entries = (parsed as { presets?: unknown } | null)?.presets
+  if (!Array.isArray(entries)) {
+    throw new PresetsFileError(`Presets file must contain a "presets" array: ${filePath}`)
+  }
+
+  return entries.map((entry: Record<string, unknown> | null, index) => {
+    const key = entry?.key
+    if (typeof key !== 'string' || !isValidScaffoldName(key)) {
+      throw new PresetsFileError(`Preset ${index + 1} in ${filePath} needs a "key" of lowercase letters, numbers, and single dashes between them.`)
+    }
+    const options = entry!.options ?? {}
+    if (options === null || typeof options !== 'object' || Array.isArray(options)) {
+      throw new PresetsFileError(`Preset "${key}" in ${filePath}: "options" must be an object.`)
+    }
+    const plugins = entry!.plugins ?? []
+    if (!Array.isArray(plugins)) {
+      throw new PresetsFileError(`Preset "${key}" in ${filePath}: "plugins" must be an array.`)
+    }
+
+    resolveOptionsFromAnswers(options as Record<string, unknown>)
+    return {
+      key,
+      name: typeof entry!.name === 'string' ? entry!.name : key,
+      description: typeof entry!.description === 'string' ? entry!.description : '',
+      options: options as Record<string, unknown>,
+      plugins: toPluginScaffolds(plugins as PluginSpec[])
+    }
+  })
+}
+
+/**
+ * Built-in presets followed by the given ones; a preset with a built-in key replaces it.
+ */
+export function mergePresets(customPresets: SetupPreset[]): SetupPreset[] {
+  const customKeys = new Set(customPresets.map((preset) => preset.key))
+  return [...builtinPresets.filter((preset) => !customKeys.has(preset.key)), ...customPresets]
+}
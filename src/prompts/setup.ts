@@ -1,6 +1,7 @@
 import { stdout } from 'node:process'
 import type { Interface as ReadlineInterface } from 'node:readline/promises'
-import type { Category, CategoryOption, ResolvedOptions } from '../types'
+import type { Category, CategoryOption, PluginScaffold, ResolvedOptions, SetupPreset } from '../types'
+import { InvalidOptionError } from '../errors'
 import { colorize } from '../utils/colors'
 import { askChoice, askInput } from '../utils/io'
 
@@ -11,10 +12,10 @@ export const categories: Category[] = [
     key: 'network',
     name: 'Network',
     options: [
-      { key: 'port', label: 'Port', type: 'number', default: 3000 },
-      { key: 'host', label: 'Host', type: 'string', default: undefined },
-      { key: 'socket', label: 'Socket', type: 'string', default: undefined },
-      { key: 'prefix', label: 'Prefix', type: 'string', default: undefined }
+      { key: 'port', label: 'Port', type: 'number', default: 3000, env: 'PORT' },
+      { key: 'host', label: 'Host', type: 'string', default: undefined, env: 'HOST' },
+      { key: 'socket', label: 'Socket', type: 'string', default: undefined, env: 'SOCKET' },
+      { key: 'prefix', label: 'Prefix', type: 'string', default: undefined, env: 'PREFIX' }
     ]
   },
   {
@@ -26,59 +27,148 @@ export const categories: Category[] = [
         label: 'Log level',
         type: 'choice',
         choices: ['fatal', 'error', 'warn', 'info', 'debug', 'trace'],
-        default: 'fatal'
+        default: 'fatal',
+        env: 'LOG_LEVEL'
       },
-      { key: 'prettyLogs', label: 'Pretty logs', type: 'boolean', default: false }
+      { key: 'prettyLogs', label: 'Pretty logs', type: 'boolean', default: false, env: 'PRETTY_LOGS' }
     ]
   },
   {
     key: 'debug',
     name: 'Debug',
     options: [
-      { key: 'debug', label: 'Enable debug inspector', type: 'boolean', default: false },
-      { key: 'debugPort', label: 'Debug port', type: 'number', default: 9320 },
-      { key: 'debugHost', label: 'Debug host', type: 'string', default: undefined }
+      { key: 'debug', label: 'Enable debug inspector', type: 'boolean', default: false, env: 'DEBUG_INSPECTOR' },
+      { key: 'debugPort', label: 'Debug port', type: 'number', default: 9320, env: 'DEBUG_PORT' },
+      { key: 'debugHost', label: 'Debug host', type: 'string', default: undefined, env: 'DEBUG_HOST' }
     ]
   },
   {
     key: 'watch',
     name: 'Watch Mode',
     options: [
-      { key: 'watch', label: 'Enable watch mode', type: 'boolean', default: false },
-      { key: 'ignoreWatch', label: 'Ignore watch list', type: 'string', default: DEFAULT_IGNORE_WATCH },
-      { key: 'verboseWatch', label: 'Verbose watch events', type: 'boolean', default: false }
+      { key: 'watch', label: 'Enable watch mode', type: 'boolean', default: false, env: 'WATCH' },
+      { key: 'ignoreWatch', label: 'Ignore watch list', type: 'string', default: DEFAULT_IGNORE_WATCH, env: 'IGNORE_WATCH' },
+      { key: 'verboseWatch', label: 'Verbose watch events', type: 'boolean', default: false, env: 'VERBOSE_WATCH' }
     ]
   },
   {
     key: 'safety',
     name: 'Safety and Limits',
     options: [
-      { key: 'pluginTimeout', label: 'Plugin timeout (ms)', type: 'number', default: 10000 },
-      { key: 'bodyLimit', label: 'Body limit (bytes)', type: 'number', default: undefined },
-      { key: 'closeGraceDelay', label: 'Close grace delay (ms)', type: 'number', default: 500 }
+      { key: 'pluginTimeout', label: 'Plugin timeout (ms)', type: 'number', default: 10000, env: 'PLUGIN_TIMEOUT' },
+      { key: 'bodyLimit', label: 'Body limit (bytes)', type: 'number', default: undefined, env: 'BODY_LIMIT' },
+      { key: 'closeGraceDelay', label: 'Close grace delay (ms)', type: 'number', default: 500, env: 'CLOSE_GRACE_DELAY' }
     ]
   },
   {
     key: 'trustProxy',
     name: 'Trust Proxy',
     options: [
-      { key: 'trustProxyEnabled', label: 'Trust proxy enabled', type: 'tri-boolean', default: undefined },
-      { key: 'trustProxyIps', label: 'Trust proxy IPs/CIDR', type: 'string', default: undefined },
-      { key: 'trustProxyHop', label: 'Trust proxy hop', type: 'number', default: undefined }
+      { key: 'trustProxyEnabled', label: 'Trust proxy enabled', type: 'tri-boolean', default: undefined, env: 'TRUST_PROXY_ENABLED' },
+      { key: 'trustProxyIps', label: 'Trust proxy IPs/CIDR', type: 'string', default: undefined, env: 'TRUST_PROXY_IPS' },
+      { key: 'trustProxyHop', label: 'Trust proxy hop', type: 'number', default: undefined, env: 'TRUST_PROXY_HOP' }
+    ]
+  },
+  {
+    key: 'project',
+    name: 'Project',
+    options: [
+      { key: 'moduleSystem', label: 'Module system', type: 'choice', choices: ['commonjs', 'esm'], default: 'commonjs' }
+    ]
+  },
+  {
+    key: 'builtinPlugins',
+    name: 'Built-in Plugins',
+    options: [
+      { key: 'sensible', label: 'Register @fastify/sensible', type: 'boolean', default: true },
+      { key: 'supportPlugin', label: 'Include the example support plugin', type: 'boolean', default: true }
+    ]
+  },
+  {
+    key: 'ecosystem',
+    name: 'Ecosystem Plugins',
+    options: [
+      { key: 'cors', label: 'Add @fastify/cors', type: 'boolean', default: false },
+      { key: 'corsOrigins', label: 'CORS allowed origins (comma separated, * for any)', type: 'string', default: '*', when: 'cors', env: 'CORS_ORIGINS' },
+      { key: 'helmet', label: 'Add @fastify/helmet', type: 'boolean', default: false },
+      { key: 'rateLimit', label: 'Add @fastify/rate-limit', type: 'boolean', default: false },
+      { key: 'rateLimitMax', label: 'Rate limit: requests per window', type: 'number', default: 100, when: 'rateLimit', env: 'RATE_LIMIT_MAX' },
+      { key: 'rateLimitWindow', label: 'Rate limit: time window', type: 'string', default: '1 minute', when: 'rateLimit', env: 'RATE_LIMIT_WINDOW' },
+      { key: 'cookie', label: 'Add @fastify/cookie', type: 'boolean', default: false },
+      { key: 'jwt', label: 'Add @fastify/jwt', type: 'boolean', default: false },
+      { key: 'jwtExpiresIn', label: 'JWT expiry (e.g. 1h, 7d)', type: 'string', default: '1h', when: 'jwt', env: 'JWT_EXPIRES_IN' },
+      { key: 'multipart', label: 'Add @fastify/multipart', type: 'boolean', default: false },
+      { key: 'multipartFileSize', label: 'Multipart: max file size (bytes)', type: 'number', default: 1048576, when: 'multipart', env: 'MULTIPART_FILE_SIZE' },
+      { key: 'staticFiles', label: 'Add @fastify/static', type: 'boolean', default: false },
+      { key: 'staticPrefix', label: 'Static files URL prefix', type: 'string', default: '/public/', when: 'staticFiles', env: 'STATIC_PREFIX' },
+      { key: 'compress', label: 'Add @fastify/compress', type: 'boolean', default: false },
+      { key: 'compressThreshold', label: 'Compress: minimum size (bytes)', type: 'number', default: 1024, when: 'compress', env: 'COMPRESS_THRESHOLD' },
+      { key: 'swagger', label: 'Add @fastify/swagger and @fastify/swagger-ui (OpenAPI docs)', type: 'boolean', default: false }
+    ]
+  },
+  {
+    key: 'operations',
+    name: 'Operations',
+    options: [
+      { key: 'healthChecks', label: 'Add /health/live and /health/ready probes', type: 'boolean', default: false },
+      { key: 'maxEventLoopDelay', label: 'Readiness: max event loop delay (ms, 0 to skip)', type: 'number', default: 1000, when: 'healthChecks', env: 'MAX_EVENT_LOOP_DELAY' },
+      { key: 'maxEventLoopUtilization', label: 'Readiness: max event loop utilization (0-1, 0 to skip)', type: 'number', default: 0.98, when: 'healthChecks', env: 'MAX_EVENT_LOOP_UTILIZATION' },
+      { key: 'maxHeapUsedBytes', label: 'Readiness: max heap used (bytes, 0 to skip)', type: 'number', default: 0, when: 'healthChecks', env: 'MAX_HEAP_USED_BYTES' },
+      { key: 'maxRssBytes', label: 'Readiness: max RSS (bytes, 0 to skip)', type: 'number', default: 0, when: 'healthChecks', env: 'MAX_RSS_BYTES' },
+      { key: 'metrics', label: 'Add a Prometheus /metrics endpoint', type: 'boolean', default: false },
+      { key: 'tracing', label: 'OpenTelemetry tracing export', type: 'choice', choices: ['none', 'console', 'collector'], default: 'none' },
+      { key: 'requestIdHeader', label: 'Request ID header (none to always generate IDs)', type: 'string', default: 'x-request-id', env: 'REQUEST_ID_HEADER', unsetAnswer: 'none' }
+    ]
+  },
+  {
+    key: 'database',
+    name: 'Database',
+    options: [
+      { key: 'database', label: 'Database', type: 'choice', choices: ['none', 'postgres', 'mysql', 'sqlite', 'mongodb'], default: 'none' }
+    ]
+  },
+  {
+    key: 'auth',
+    name: 'Authentication',
+    options: [
+      { key: 'auth', label: 'Auth strategy for protected routes', type: 'choice', choices: ['none', 'jwt', 'api-key', 'basic'], default: 'none' }
+    ]
+  },
+  {
+    key: 'deployment',
+    name: 'Deployment',
+    options: [
+      { key: 'docker', label: 'Add a Dockerfile and .dockerignore', type: 'boolean', default: false },
+      { key: 'dockerCompose', label: 'Docker: add docker-compose.yml (app and database)', type: 'boolean', default: false, when: 'docker' }
     ]
   }
 ]
 
-export async function runSetupFlow(rl: ReadlineInterface): Promise<ResolvedOptions> {
+export interface SetupResult {
+  resolvedOptions: ResolvedOptions
+  /** Plugins added by the chosen preset, if any. */
+  pluginScaffolds: PluginScaffold[]
+}
+
+export async function runSetupFlow(rl: ReadlineInterface, presets: SetupPreset[] = []): Promise<SetupResult> {
+  const presetChoices = presets.map((preset) => `${preset.name} preset (${preset.description})`)
   const mode = await askChoice(rl, 'How do you want to set this up?', [
     'Default setup (quick start)',
-    'Guided setup (choose by category)'
+    'Guided setup (choose by category)',
+    ...presetChoices
   ])
 
   if (mode.startsWith('Default setup')) {
     const defaults = buildAllDefaults()
     printSummary(defaults)
-    return defaults
+    return { resolvedOptions: defaults, pluginScaffolds: [] }
+  }
+
+  const preset = presets[presetChoices.indexOf(mode)]
+  if (preset) {
+    const resolvedOptions = resolveOptionsFromAnswers(preset.options)
+    printSummary(resolvedOptions)
+    return { resolvedOptions, pluginScaffolds: preset.plugins }
   }
 
   const resolved: ResolvedOptions = {}
@@ -98,9 +188,117 @@ export async function runSetupFlow(rl: ReadlineInterface): Promise<ResolvedOptio
 
   applyTrustProxyPrecedence(resolved)
   printSummary(resolved)
+  return { resolvedOptions: resolved, pluginScaffolds: [] }
+}
+
+/**
+ * Resolves every setup option without prompting or printing. `answers` may be keyed by option key
+ * (`logLevel`) or flag name (`log-level`); later entries win, so flags can override a config file.
+ */
+export function resolveOptionsFromAnswers(answers: Record<string, unknown>): ResolvedOptions {
+  const resolved = buildAllDefaults()
+  const answeredKeys = new Set<string>()
+
+  for (const [name, answer] of Object.entries(answers)) {
+    const option = findOptionByName(name)
+    if (!option) {
+      throw new InvalidOptionError(`Unknown setup option: ${name}`)
+    }
+    resolved[option.key] = coerceAnswer(option, answer)
+    answeredKeys.add(option.key)
+  }
+
+  applyFollowUpGates(resolved, answeredKeys)
+
+  const networkConflict = findNetworkConflict(resolved, answeredKeys)
+  if (networkConflict) {
+    throw new InvalidOptionError(networkConflict)
+  }
+
+  applySocketPrecedence(resolved)
+  applyTrustProxyPrecedence(resolved)
   return resolved
 }
 
+/**
+ * Turns resolved options back into answers for `resolveOptionsFromAnswers`, dropping derived values.
+ */
+export function toAnswers(resolvedOptions: ResolvedOptions): Record<string, unknown> {
+  const answers: Record<string, unknown> = {}
+  for (const category of categories) {
+    for (const option of category.options) {
+      answers[option.key] = resolvedOptions[option.key]
+    }
+  }
+  return answers
+}
+
+export function optionFlagName(option: CategoryOption): string {
+  return option.key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)
+}
+
+export function findOptionByName(name: string): CategoryOption | undefined {
+  for (const category of categories) {
+    const option = category.options.find((candidate) => candidate.key === name || optionFlagName(candidate) === name)
+    if (option) {
+      return option
+    }
+  }
+  return undefined
+}
+
+/**
+ * Parses a raw text answer using the same type rules as the interactive prompts.
+ * An empty answer, or the option's `unsetAnswer`, means "unset".
+ */
+export function parseOptionValue(option: CategoryOption, raw: string): string | number | boolean | undefined {
+  const value = raw.trim()
+  if (value === '' || value === option.unsetAnswer) {
+    return undefined
+  }
+
+  if (option.type === 'boolean' || option.type === 'tri-boolean') {
+    const normalized = value.toLowerCase()
+    if (['true', 'yes', '1'].includes(normalized)) {
+      return true
+    }
+    if (['false', 'no', '0'].includes(normalized)) {
+      return false
+    }
+    if (option.type === 'tri-boolean' && normalized === 'unset') {
+      return undefined
+    }
+    throw new InvalidOptionError(`Invalid value for ${option.label}: "${value}". Expected true or false.`)
+  }
+
+  if (option.type === 'choice') {
+    if (!option.choices!.includes(value)) {
+      throw new InvalidOptionError(`Invalid value for ${option.label}: "${value}". Expected one of: ${option.choices!.join(', ')}.`)
+    }
+    return value
+  }
+
+  if (option.type === 'number') {
+    const parsed = Number(value)
+    if (Number.isNaN(parsed)) {
+      throw new InvalidOptionError(`Invalid number for ${option.label}: "${value}".`)
+    }
+    return parsed
+  }
+
+  return value
+}
+
+function coerceAnswer(option: CategoryOption, answer: unknown): string | number | boolean | undefined {
+  if (answer === null || answer === undefined) {
+    return undefined
+  }
+  if (answer === true && option.type !== 'boolean' && option.type !== 'tri-boolean') {
+    throw new InvalidOptionError(`Missing value for ${option.label}.`)
+  }
+  return parseOptionValue(option, String(answer))
+}
+
 function buildAllDefaults(): ResolvedOptions {
   const resolved: ResolvedOptions = {}
   for (const category of categories) {
@@ -112,7 +310,34 @@ function buildAllDefaults(): ResolvedOptions {
 
 function applyCategoryDefaults(category: Category, resolved: ResolvedOptions): void {
   for (const option of category.options) {
-    resolved[option.key] = option.default
+    resolved[option.key] = isGatedOff(option, resolved) ? undefined : option.default
+  }
+}
+
+function isGatedOff(option: CategoryOption, resolved: ResolvedOptions): boolean {
+  return option.when !== undefined && resolved[option.when] !== true
+}
+
+/**
+ * Follow-up options are unset while their gate is off, and answering one then is an error.
+ * An unanswered follow-up whose gate was switched on by the answers takes its default.
+ */
+function applyFollowUpGates(resolved: ResolvedOptions, answeredKeys: Set<string>): void {
+  for (const category of categories) {
+    for (const option of category.options) {
+      if (option.when === undefined) {
+        continue
+      }
+      if (isGatedOff(option, resolved)) {
+        if (resolved[option.key] !== undefined && answeredKeys.has(option.key)) {
+          const gate = findOptionByName(option.when)!
+          throw new InvalidOptionError(`${option.label} only applies with --${optionFlagName(gate)}.`)
+        }
+        resolved[option.key] = undefined
+      } else if (!answeredKeys.has(option.key)) {
+        resolved[option.key] = option.default
+      }
+    }
   }
 }
 
@@ -121,14 +346,45 @@ async function promptCategoryOptions(
   category: Category,
   resolved: ResolvedOptions
 ): Promise<void> {
+  const answeredKeys = new Set<string>()
   for (const option of category.options) {
-    resolved[option.key] = await askOption(rl, option)
+    resolved[option.key] = isGatedOff(option, resolved) ? undefined : await askOption(rl, option, answeredKeys)
+  }
+  if (category.key === 'network') {
+    const networkConflict = findNetworkConflict(resolved, answeredKeys)
+    if (networkConflict) {
+      stdout.write(`${colorize(networkConflict, 'yellow')}\n`)
+      await promptCategoryOptions(rl, category, resolved)
+      return
+    }
+    applySocketPrecedence(resolved)
   }
   if (category.key === 'trustProxy') {
     applyTrustProxyPrecedence(resolved)
   }
 }
 
+/**
+ * A socket path (or Windows named pipe) replaces host and port, so it cannot be combined
+ * with a host or with a port that was answered, even one equal to the default.
+ */
+function findNetworkConflict(resolved: ResolvedOptions, answeredKeys: Set<string>): string | undefined {
+  if (resolved.socket === undefined) {
+    return undefined
+  }
+
+  if (resolved.host !== undefined || (answeredKeys.has('port') && resolved.port !== undefined)) {
+    return 'Socket cannot be combined with host or port. Leave host and port unanswered to use a socket.'
+  }
+  return undefined
+}
+
+function applySocketPrecedence(resolved: ResolvedOptions): void {
+  if (resolved.socket !== undefined) {
+    resolved.port = undefined
+  }
+}
+
 function applyTrustProxyPrecedence(resolved: ResolvedOptions): void {
   if (typeof resolved.trustProxyEnabled === 'boolean') {
     resolved.trustProxyEffective = resolved.trustProxyEnabled
@@ -148,7 +404,7 @@ function applyTrustProxyPrecedence(resolved: ResolvedOptions): void {
   resolved.trustProxyEffective = undefined
 }
 
-function printSummary(resolvedOptions: ResolvedOptions): void {
+export function printSummary(resolvedOptions: ResolvedOptions): void {
   stdout.write(`\n${colorize('Resolved setup options:', 'cyan')}\n`)
   for (const [key, value] of Object.entries(resolvedOptions)) {
     const printable = value === undefined ? '(default/unset)' : value
@@ -159,9 +415,14 @@ function printSummary(resolvedOptions: ResolvedOptions): void {
   stdout.write('\n')
 }
 
+/**
+ * Asks for one option. Text and number options that get an answer, rather than an empty line
+ * keeping the default, are added to `answeredKeys`.
+ */
 async function askOption(
   rl: ReadlineInterface,
-  option: CategoryOption
+  option: CategoryOption,
+  answeredKeys: Set<string>
 ): Promise<string | number | boolean | undefined> {
   if (option.type === 'boolean') {
     const answer = await askChoice(rl, `${option.label}?`, ['No', 'Yes'])
@@ -183,19 +444,22 @@ async function askOption(
     return askChoice(rl, `${option.label}:`, option.choices!)
   }
 
+  const response = await askInput(rl, `${option.label}`, option.default, true)
+  if (response === '') {
+    return option.default
+  }
+
   if (option.type === 'number') {
-    const response = await askInput(rl, `${option.label}`, option.default)
-    if (response === '') {
-      return undefined
-    }
-    const parsed = Number(response)
-    if (Number.isNaN(parsed)) {
+    try {
+      const value = parseOptionValue(option, response)
+      answeredKeys.add(option.key)
+      return value
+    } catch {
       stdout.write(`${colorize('Invalid number, using default/unset.', 'yellow')}\n`)
       return option.default
     }
-    return parsed
   }
 
-  const response = await askInput(rl, `${option.label}`, option.default)
-  return response === '' ? undefined : response
+  answeredKeys.add(option.key)
+  return parseOptionValue(option, response)
 }
@@ -1,9 +1,17 @@
+import type { TemplateOverrides } from './generator/templates'
+
 export interface CategoryOption {
   key: string
   label: string
   type: 'number' | 'string' | 'boolean' | 'tri-boolean' | 'choice'
   choices?: string[]
   default: number | string | boolean | undefined
+  /** Environment variable the generated app reads this option from at runtime. */
+  env?: string
+  /** Key of the boolean option this follow-up belongs to. It is only asked, and only set, while that option is on. */
+  when?: string
+  /** An answer that unsets a text option whose default is not empty, since an empty answer keeps the default. */
+  unsetAnswer?: string
 }
 
 export interface Category {
@@ -16,11 +24,62 @@ export interface ResolvedOptions {
   [key: string]: string | number | boolean | undefined
 }
 
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+export interface RouteScaffold {
+  name: string
+  methods: HttpMethod[]
+  /** Optional path parameter, served as `/<name>/:<param>`. */
+  param: string | undefined
+  /** Runs `fastify.authenticate` before every handler; needs an auth strategy. */
+  protected: boolean
+}
+
+export type HookEvent =
+  | 'onRequest'
+  | 'preParsing'
+  | 'preValidation'
+  | 'preHandler'
+  | 'preSerialization'
+  | 'onSend'
+  | 'onResponse'
+  | 'onError'
+  | 'onTimeout'
+  | 'onReady'
+  | 'onClose'
+
+export interface HookScaffold {
+  name: string
+  event: HookEvent
+}
+
+export type ResourceFieldType = 'string' | 'number' | 'boolean'
+
+export interface ResourceField {
+  name: string
+  type: ResourceFieldType
+}
+
+/**
+ * A CRUD resource served as `/<name>` (list, create) and `/<name>/:id` (get, update, delete),
+ * backed by an in-memory repository. Every field is required on create and optional on update.
+ */
+export interface ResourceScaffold {
+  name: string
+  fields: ResourceField[]
+}
+
+/** What a scaffolded decorator is attached to: the Fastify instance, each request or each reply. */
+export type DecoratorTarget = 'instance' | 'request' | 'reply'
+
 export interface PluginScaffold {
   pluginName: string
-  routeNames: string[]
-  hookNames: string[]
+  routes: RouteScaffold[]
+  hooks: HookScaffold[]
+  resources: ResourceScaffold[]
   hasDecorator: boolean
+  /** Only meaningful when `hasDecorator` is set. */
+  decoratorTarget: DecoratorTarget
   childPluginName: string | undefined
   additions: string[]
 }
@@ -29,3 +88,59 @@ export interface GeneratedFile {
   relativePath: string
   content: string
 }
+
+/**
+ * `fastify-new.json`: what a project was generated from, so `fastify-new upgrade` can render it again.
+ */
+export interface ProjectManifest {
+  generatorVersion: string
+  /** The setup answers; unset options are `null`, since JSON has no `undefined` and they would take their defaults again. */
+  options: Record<string, string | number | boolean | null>
+  pluginScaffolds: PluginScaffold[]
+  /** The generated content of every file except `.env`, by relative path: the base of upgrade merges. */
+  files: Record<string, string>
+  /** The template overrides the files were rendered with; `add` and `upgrade` reuse them. Older manifests have none. */
+  templates?: TemplateOverrides
+}
+
+/**
+ * The filesystem operations the generator needs. Paths are absolute; every method may be async.
+ */
+export interface FileSystemAdapter {
+  exists(targetPath: string): Promise<boolean>
+  /** Creates a directory and its missing parents. */
+  mkdir(dirPath: string): Promise<void>
+  /** Creates a new uniquely named directory whose path starts with `prefix` and returns its path. */
+  mkdtemp(prefix: string): Promise<string>
+  writeFile(filePath: string, content: string): Promise<void>
+  rename(fromPath: string, toPath: string): Promise<void>
+  /** Removes a file or a directory tree; missing paths are ignored. */
+  rm(targetPath: string): Promise<void>
+}
+
+/**
+ * A plugin to scaffold through `createProject`. Only `pluginName` is required:
+ * route methods default to GET, hook events to onRequest, resource field types to string
+ * and the decorator target to instance.
+ */
+export interface PluginSpec {
+  pluginName: string
+  routes?: Array<{ name: string, methods?: HttpMethod[], param?: string, protected?: boolean }>
+  hooks?: Array<{ name: string, event?: HookEvent }>
+  resources?: Array<{ name: string, fields: Array<{ name: string, type?: ResourceFieldType }> }>
+  hasDecorator?: boolean
+  decoratorTarget?: DecoratorTarget
+  childPluginName?: string
+}
+
+/**
+ * A named starting point for setup: option answers plus plugins to scaffold in one step.
+ */
+export interface SetupPreset {
+  key: string
+  name: string
+  description: string
+  /** Answers keyed by option key or flag name, like a config file; options left out keep their defaults. */
+  options: Record<string, unknown>
+  plugins: PluginScaffold[]
+}
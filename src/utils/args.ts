@@ -0,0 +1,67 @@
+export interface FlagSpec {
+  booleanFlags: Set<string>
+  valueFlags: Set<string>
+}
+
+export interface ParsedArgs {
+  positionals: string[]
+  flags: Map<string, string | true>
+}
+
+/**
+ * Splits argv into positionals and `--flag` values.
+ * Boolean flags never consume the next argument; use `--flag=false` or `--no-flag` to negate them.
+ */
+export function parseArgs(args: string[], { booleanFlags, valueFlags }: FlagSpec): ParsedArgs {
+  const positionals: string[] = []
+  const flags = new Map<string, string | true>()
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]
+
+    if (arg === '-y') {
+      flags.set('yes', true)
+      continue
+    }
+
+    if (!arg.startsWith('--')) {
+      if (arg.startsWith('-')) {
+        throw new Error(`Unknown option: ${arg}`)
+      }
+      positionals.push(arg)
+      continue
+    }
+
+    const body = arg.slice(2)
+    const equalsIndex = body.indexOf('=')
+    const name = equalsIndex === -1 ? body : body.slice(0, equalsIndex)
+
+    if (name.startsWith('no-') && booleanFlags.has(name.slice(3)) && equalsIndex === -1) {
+      flags.set(name.slice(3), 'false')
+      continue
+    }
+
+    if (!booleanFlags.has(name) && !valueFlags.has(name)) {
+      throw new Error(`Unknown option: --${name}`)
+    }
+
+    if (equalsIndex !== -1) {
+      flags.set(name, body.slice(equalsIndex + 1))
+      continue
+    }
+
+    if (booleanFlags.has(body)) {
+      flags.set(body, true)
+      continue
+    }
+
+    const next = args[index + 1]
+    if (next === undefined || next.startsWith('--')) {
+      throw new Error(`Missing value for --${body}`)
+    }
+    flags.set(body, next)
+    index++
+  }
+
+  return { positionals, flags }
+}
@@ -0,0 +1,82 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+export type AnswersFile = Record<string, unknown>
+
+/**
+ * Loads a setup answers file. `.json` files are parsed as JSON; `.yaml`/`.yml`
+ * files support flat `key: value` pairs, which covers every setup option.
+ */
+export function loadAnswersFile(filePath: string): AnswersFile {
+  const absolutePath = path.resolve(process.cwd(), filePath)
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Config file not found: ${filePath}`)
+  }
+
+  const raw = fs.readFileSync(absolutePath, 'utf8')
+  const extension = path.extname(absolutePath).toLowerCase()
+
+  if (extension === '.yaml' || extension === '.yml') {
+    return parseFlatYaml(raw, filePath)
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch (err) {
+    throw new Error(`Config file is not valid JSON: ${filePath} (${err instanceof Error ? err.message : String(err)})`)
+  }
+
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Config file must contain an object: ${filePath}`)
+  }
+  return parsed as AnswersFile
+}
+
+function parseFlatYaml(raw: string, filePath: string): AnswersFile {
+  const answers: AnswersFile = {}
+  const lines = raw.split(/\r?\n/)
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim()
+    if (trimmed === '' || trimmed.startsWith('#') || trimmed === '---') {
+      return
+    }
+
+    const match = /^([A-Za-z][\w-]*)\s*:\s*(.*)$/.exec(trimmed)
+    if (!match || line.startsWith(' ') || line.startsWith('\t')) {
+      throw new Error(`Unsupported YAML on line ${index + 1} of ${filePath}. Only flat "key: value" pairs are supported.`)
+    }
+
+    answers[match[1]] = parseYamlScalar(match[2])
+  })
+
+  return answers
+}
+
+function parseYamlScalar(raw: string): unknown {
+  let value = raw.trim()
+
+  // A comment may follow a quoted string, which can itself hold ` #`
+  const quote = value[0]
+  const isQuoted = quote === '"' || quote === "'"
+  const commentIndex = value.indexOf(' #', isQuoted ? value.indexOf(quote, 1) + 1 : 0)
+  if (commentIndex !== -1) {
+    value = value.slice(0, commentIndex).trim()
+  }
+
+  if (isQuoted && value.endsWith(quote) && value.length >= 2) {
+    return value.slice(1, -1)
+  }
+
+  if (value === '' || value === '~' || value === 'null') {
+    return null
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true'
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value)
+  }
+  return value
+}
@@ -0,0 +1,98 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { FileSystemAdapter } from '../types'
+
+export const nodeFileSystem: FileSystemAdapter = {
+  async exists(targetPath) {
+    return fs.existsSync(targetPath)
+  },
+  async mkdir(dirPath) {
+    await fs.promises.mkdir(dirPath, { recursive: true })
+  },
+  async mkdtemp(prefix) {
+    return await fs.promises.mkdtemp(prefix)
+  },
+  async writeFile(filePath, content) {
+    await fs.promises.writeFile(filePath, content)
+  },
+  async rename(fromPath, toPath) {
+    await fs.promises.rename(fromPath, toPath)
+  },
+  async rm(targetPath) {
+    await fs.promises.rm(targetPath, { recursive: true, force: true })
+  }
+}
+
+export interface MemoryFileSystem extends FileSystemAdapter {
+  /** File contents by absolute path. */
+  files: Map<string, string>
+}
+
+/**
+ * An in-memory filesystem, e.g. to generate a project without touching the disk.
+ */
+export function createMemoryFileSystem(): MemoryFileSystem {
+  const files = new Map<string, string>()
+  const directories = new Set<string>()
+  let tempCounter = 0
+
+  const isWithin = (candidate: string, dirPath: string): boolean =>
+    candidate === dirPath || candidate.startsWith(`${dirPath}${path.sep}`)
+  const pathsWithin = (paths: Iterable<string>, dirPath: string): string[] =>
+    [...paths].filter((candidate) => isWithin(candidate, dirPath))
+
+  const mkdir = async (dirPath: string): Promise<void> => {
+    for (let current = dirPath; !directories.has(current); current = path.dirname(current)) {
+      if (files.has(current)) {
+        throw new Error(`ENOTDIR: not a directory, mkdir '${dirPath}'`)
+      }
+      directories.add(current)
+      if (path.dirname(current) === current) {
+        break
+      }
+    }
+  }
+
+  return {
+    files,
+    async exists(targetPath) {
+      return files.has(targetPath) || directories.has(targetPath)
+    },
+    mkdir,
+    async mkdtemp(prefix) {
+      const dirPath = `${prefix}${++tempCounter}`
+      await mkdir(dirPath)
+      return dirPath
+    },
+    async writeFile(filePath, content) {
+      if (!directories.has(path.dirname(filePath))) {
+        throw new Error(`ENOENT: no such file or directory, open '${filePath}'`)
+      }
+      if (directories.has(filePath)) {
+        throw new Error(`EISDIR: illegal operation on a directory, open '${filePath}'`)
+      }
+      files.set(filePath, content)
+    },
+    async rename(fromPath, toPath) {
+      if (files.has(toPath) || directories.has(toPath)) {
+        throw new Error(`EEXIST: file already exists, rename '${fromPath}' -> '${toPath}'`)
+      }
+      for (const filePath of pathsWithin(files.keys(), fromPath)) {
+        files.set(`${toPath}${filePath.slice(fromPath.length)}`, files.get(filePath)!)
+        files.delete(filePath)
+      }
+      for (const dirPath of pathsWithin(directories, fromPath)) {
+        directories.delete(dirPath)
+        directories.add(`${toPath}${dirPath.slice(fromPath.length)}`)
+      }
+    },
+    async rm(targetPath) {
+      for (const filePath of pathsWithin(files.keys(), targetPath)) {
+        files.delete(filePath)
+      }
+      for (const dirPath of pathsWithin(directories, targetPath)) {
+        directories.delete(dirPath)
+      }
+    }
+  }
+}
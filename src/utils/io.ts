@@ -1,6 +1,7 @@
 import { stdout } from 'node:process'
 import type { Interface as ReadlineInterface } from 'node:readline/promises'
 import { colorize } from './colors'
+import { isValidScaffoldName, reservedPluginNameMessage } from './validation'
 
 export async function askChoice(rl: ReadlineInterface, message: string, options: string[]): Promise<string> {
   stdout.write(`\n${colorize(message, 'cyan')}\n`)
@@ -18,15 +19,20 @@ export async function askChoice(rl: ReadlineInterface, message: string, options:
   }
 }
 
+/**
+ * Asks for a line of text. An empty answer returns the default, or an empty string with `keepEmpty`,
+ * for callers that need to tell an accepted default from a typed value.
+ */
 export async function askInput(
   rl: ReadlineInterface,
   label: string,
-  defaultValue: string | number | boolean | undefined
+  defaultValue: string | number | boolean | undefined,
+  keepEmpty = false
 ): Promise<string> {
   const suffix = defaultValue === undefined ? '' : ` [default: ${defaultValue}]`
   const raw = await rl.question(`${label}${suffix}: `)
   if (raw.trim() === '') {
-    if (defaultValue === undefined) {
+    if (defaultValue === undefined || keepEmpty) {
       return ''
     }
     return String(defaultValue)
@@ -34,12 +40,18 @@ export async function askInput(
   return raw.trim()
 }
 
-export async function askPluginName(rl: ReadlineInterface, label: string): Promise<string> {
+/**
+ * Asks for a scaffold name until it is valid and not one of `reservedNames`.
+ */
+export async function askPluginName(rl: ReadlineInterface, label: string, reservedNames: string[] = []): Promise<string> {
   while (true) {
     const name = await askInput(rl, label, undefined)
-    if (/^[a-z][a-z0-9-]*$/.test(name)) {
+    if (!isValidScaffoldName(name)) {
+      stdout.write(`${colorize('Use lowercase letters, numbers, and single dashes between them; must start with a letter.', 'yellow')}\n`)
+    } else if (reservedNames.includes(name)) {
+      stdout.write(`${colorize(reservedPluginNameMessage(name), 'yellow')}\n`)
+    } else {
       return name
     }
-    stdout.write(`${colorize('Use lowercase letters, numbers, and dashes only; must start with a letter.', 'yellow')}\n`)
   }
 }
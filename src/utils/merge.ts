@@ -0,0 +1,108 @@
+export interface MergeResult {
+  content: string
+  conflicts: number
+}
+
+/**
+ * Line-based three-way merge of two edits (`ours`, `theirs`) of a common `base`.
+ * When both sides only insert lines at the same spot, both insertions are kept (ours first);
+ * any other overlapping change is written between conflict markers and counted.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeResult {
+  const baseLines = base.split('\n')
+  const ourLines = ours.split('\n')
+  const theirLines = theirs.split('\n')
+  const ourMatches = matchLines(baseLines, ourLines)
+  const theirMatches = matchLines(baseLines, theirLines)
+
+  const merged: string[] = []
+  let conflicts = 0
+  let baseIndex = 0
+  let ourIndex = 0
+  let theirIndex = 0
+
+  while (true) {
+    let stableIndex = baseIndex
+    while (stableIndex < baseLines.length && !(ourMatches.has(stableIndex) && theirMatches.has(stableIndex))) {
+      stableIndex++
+    }
+
+    const ourEnd = stableIndex < baseLines.length ? ourMatches.get(stableIndex)! : ourLines.length
+    const theirEnd = stableIndex < baseLines.length ? theirMatches.get(stableIndex)! : theirLines.length
+    const chunk = resolveChunk(
+      baseLines.slice(baseIndex, stableIndex),
+      ourLines.slice(ourIndex, ourEnd),
+      theirLines.slice(theirIndex, theirEnd)
+    )
+    merged.push(...chunk.lines)
+    if (chunk.conflict) {
+      conflicts++
+    }
+
+    if (stableIndex >= baseLines.length) {
+      break
+    }
+
+    merged.push(baseLines[stableIndex])
+    baseIndex = stableIndex + 1
+    ourIndex = ourEnd + 1
+    theirIndex = theirEnd + 1
+  }
+
+  return { content: merged.join('\n'), conflicts }
+}
+
+function resolveChunk(base: string[], ours: string[], theirs: string[]): { lines: string[], conflict: boolean } {
+  if (sameLines(ours, base)) {
+    return { lines: theirs, conflict: false }
+  }
+  if (sameLines(theirs, base) || sameLines(ours, theirs)) {
+    return { lines: ours, conflict: false }
+  }
+  if (base.length === 0) {
+    return { lines: [...ours, ...theirs], conflict: false }
+  }
+
+  return { lines: markConflict(ours, theirs), conflict: true }
+}
+
+/**
+ * Both versions of conflicting lines between git-style markers.
+ */
+export function markConflict(ours: string[], theirs: string[]): string[] {
+  return ['<<<<<<< yours', ...ours, '=======', ...theirs, '>>>>>>> fastify-new']
+}
+
+function sameLines(left: string[], right: string[]): boolean {
+  return left.length === right.length && left.every((line, index) => line === right[index])
+}
+
+/**
+ * Longest common subsequence of two line lists, as a map from `base` index to `other` index.
+ */
+function matchLines(base: string[], other: string[]): Map<number, number> {
+  const lengths: number[][] = Array.from({ length: base.length + 1 }, () => new Array<number>(other.length + 1).fill(0))
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = other.length - 1; j >= 0; j--) {
+      lengths[i][j] = base[i] === other[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const matches = new Map<number, number>()
+  let i = 0
+  let j = 0
+  while (i < base.length && j < other.length) {
+    if (base[i] === other[j]) {
+      matches.set(i, j)
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return matches
+}
@@ -0,0 +1,6 @@
+/**
+ * Quotes a value for generated TypeScript as a single-quoted string literal, escaping backslashes and quotes.
+ */
+export function toStringLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
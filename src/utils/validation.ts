@@ -2,20 +2,31 @@ import fs from 'node:fs'
 import path from 'node:path'
 import { stderr, exit } from 'node:process'
 import { colorize } from './colors'
+import { DuplicateFileError, TargetDirectoryError } from '../errors'
 
 export function fail(message: string): never {
   stderr.write(`${colorize('Error:', 'red')} ${message}\n`)
   exit(1)
 }
 
-export function validateNewProjectTarget(targetDir: string): void {
+export function isValidScaffoldName(name: string): boolean {
+  return /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/.test(name)
+}
+
+export function reservedPluginNameMessage(name: string): string {
+  return `"${name}" is the name of a built-in plugin, whose files a scaffolded plugin would collide with. Choose another plugin name.`
+}
+
+export function validateNewProjectTarget(
+  targetDir: string,
+  targetExists = fs.existsSync(path.resolve(process.cwd(), targetDir))
+): void {
   if (targetDir === '.') {
-    fail('Current directory generation is disabled in MVP. Use a new directory name.')
+    throw new TargetDirectoryError('Current directory generation is disabled in MVP. Use a new directory name.', targetDir)
   }
 
-  const absoluteTarget = path.resolve(process.cwd(), targetDir)
-  if (fs.existsSync(absoluteTarget)) {
-    fail('Target directory already exists. Please choose a new directory.')
+  if (targetExists) {
+    throw new TargetDirectoryError('Target directory already exists. Please choose a new directory.', targetDir)
   }
 }
 
@@ -23,7 +34,7 @@ export function ensureNoDuplicateFilePaths(filePaths: string[]): void {
   const seen = new Set<string>()
   for (const filePath of filePaths) {
     if (seen.has(filePath)) {
-      fail(`Duplicate generated file detected: ${filePath}`)
+      throw new DuplicateFileError(filePath)
     }
     seen.add(filePath)
   }